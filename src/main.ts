@@ -1,5 +1,6 @@
 require('dotenv').config();
 import Redis from 'ioredis';
+import axios from 'axios';
 import Fastify from 'fastify';
 import FastifyCors from '@fastify/cors';
 import fs from 'fs';
@@ -14,6 +15,28 @@ import meta from './routes/meta';
 import news from './routes/news';
 import chalk from 'chalk';
 import Utils from './utils';
+import cache, { registerCacheHeaders } from './utils/cache';
+import {
+  countDemoKeys,
+  createApiKey,
+  readApiKey,
+  registerApiKeyAuth,
+  verifyApiKey,
+} from './utils/apikeys';
+import { registerRateLimit } from './utils/ratelimit';
+import { limitUpstreamRequests } from './utils/upstream';
+import { measureUpstreamRequests, registerMetrics } from './utils/metrics';
+import {
+  RateLimited,
+  UpstreamTimeout,
+  errorBody,
+  registerErrorHandler,
+  toApiError,
+} from './utils/errors';
+import { registerFlagAliases } from './utils/schemas';
+import { registerDocs } from './utils/docs';
+import { registerNormalizers } from './utils/normalize';
+import { registerQualities } from './utils/qualities';
 
 export const redis =
   process.env.REDIS_HOST &&
@@ -31,6 +54,16 @@ const fastify = Fastify({
   logger: true,
 });
 export const tmdbApi = process.env.TMDB_KEY && process.env.TMDB_KEY;
+export const proxySecret = process.env.PROXY_SECRET;
+// Sets default lifetime of signed proxy links to 6 hours (21600 seconds) if not provided in .env
+export const PROXY_URL_TTL = Number(process.env.PROXY_URL_TTL) || 21600;
+export const adminKey = process.env.ADMIN_KEY;
+// demo instances always require a key, handed out by /apidemo
+export const requireApiKey =
+  process.env.REQUIRE_API_KEY === 'true' || process.env.NODE_ENV === 'DEMO';
+// Sets default client rate limit to 120 requests per minute, bursts of 30, if not provided in .env (0 disables it)
+export const RATE_LIMIT = Number(process.env.RATE_LIMIT ?? 120);
+export const RATE_LIMIT_BURST = Number(process.env.RATE_LIMIT_BURST) || 30;
 (async () => {
   const PORT = Number(process.env.PORT) || 3000;
 
@@ -39,105 +72,84 @@ export const tmdbApi = process.env.TMDB_KEY && process.env.TMDB_KEY;
     methods: 'GET',
   });
 
-  if (process.env.NODE_ENV === 'DEMO') {
-    console.log(chalk.yellowBright('DEMO MODE ENABLED'));
-
-    const map = new Map<string, { expiresIn: Date }>();
-    // session duration in milliseconds (5 hours)
-    const sessionDuration = 1000 * 60 * 60 * 5;
-
-    fastify.addHook('onRequest', async (request, reply) => {
-      const ip = request.ip;
-      const session = map.get(ip);
-
-      // check if the requester ip has a session (temporary access)
-      if (session) {
-        // if session is found, check if the session is expired
-        const { expiresIn } = session;
-        const currentTime = new Date();
-        const sessionTime = new Date(expiresIn);
-
-        // check if the session has been expired
-        if (currentTime.getTime() > sessionTime.getTime()) {
-          console.log('session expired');
-          // if expired, delete the session and continue
-          map.delete(ip);
-
-          // redirect to the demo request page
-          return reply.redirect('/apidemo');
-        }
-        console.log('session found. expires in', expiresIn);
-        if (request.url === '/apidemo') return reply.redirect('/');
-        return;
-      }
+  // first, so rejected requests are counted too
+  registerMetrics(fastify, { token: process.env.METRICS_TOKEN });
+  registerErrorHandler(fastify);
+  registerFlagAliases(fastify);
+  registerNormalizers(fastify);
+  registerQualities(fastify);
+  // before the routes, so every one of them ends up in the spec
+  await registerDocs(fastify);
+
+  registerApiKeyAuth(fastify, {
+    required: requireApiKey,
+    redirect: process.env.NODE_ENV === 'DEMO' ? '/apidemo' : undefined,
+  });
 
-      // if route is not /apidemo, redirect to the demo request page
-      if (request.url === '/apidemo') return;
+  if (RATE_LIMIT > 0)
+    registerRateLimit(fastify, { perMinute: RATE_LIMIT, burst: RATE_LIMIT_BURST });
 
-      console.log('session not found');
-      reply.redirect('/apidemo');
-    });
+  measureUpstreamRequests(axios);
+  limitUpstreamRequests(axios);
 
-    fastify.post('/apidemo', async (request, reply) => {
-      const { ip } = request;
-
-      // check if the requester ip has a session (temporary access)
-      const session = map.get(ip);
+  if (process.env.NODE_ENV === 'DEMO') {
+    console.log(chalk.yellowBright('DEMO MODE ENABLED'));
 
-      if (session) return reply.redirect('/');
+    // demo keys last 5 hours (in seconds)
+    const sessionDuration = 60 * 60 * 5;
 
-      // if no session, create a new session
-      const expiresIn = new Date(Date.now() + sessionDuration);
-      map.set(ip, { expiresIn });
+    fastify.post('/apidemo', async (request, reply) => {
+      // reuse the key of a running session, so clicking again doesn't stack quotas
+      const existing = await verifyApiKey(readApiKey(request) ?? '');
+      if (existing) return reply.status(200).send({ expiresAt: existing.expiresAt });
+
+      // one key per address and session, so posting again doesn't mint a fresh quota
+      if ((await countDemoKeys(request.ip, sessionDuration)) > 1)
+        throw new RateLimited(
+          'A demo key was already issued to this address. Reuse it until it expires.',
+        );
+
+      const { key, record } = await createApiKey({
+        name: `demo:${request.ip}`,
+        expiresIn: sessionDuration,
+        rateLimit: 60,
+        dailyQuota: 1000,
+      });
 
-      // redirect to the demo request page
-      reply.redirect('/');
+      reply
+        .header(
+          'set-cookie',
+          `api_key=${key}; Path=/; Max-Age=${sessionDuration}; HttpOnly; SameSite=Lax`,
+        )
+        .status(200)
+        .send({ key, expiresAt: record.expiresAt });
     });
 
     fastify.get('/apidemo', async (_, reply) => {
-      try {
-        const stream = fs.readFileSync(__dirname + '/../demo/apidemo.html');
-        return reply.type('text/html').send(stream);
-      } catch (err) {
-        console.error(err);
-        return reply.status(500).send({
-          message: 'Could not load the demo page. Please try again later.',
-        });
-      }
+      const stream = fs.readFileSync(__dirname + '/../demo/apidemo.html');
+      return reply.type('text/html').send(stream);
     });
-
-    // set interval to delete expired sessions every 1 hour
-    setInterval(
-      () => {
-        const currentTime = new Date();
-        for (const [ip, session] of map.entries()) {
-          const { expiresIn } = session;
-          const sessionTime = new Date(expiresIn);
-
-          // check if the session is expired
-          if (currentTime.getTime() > sessionTime.getTime()) {
-            console.log('session expired for', ip);
-            // if expired, delete the session and continue
-            map.delete(ip);
-          }
-        }
-      },
-      1000 * 60 * 60,
-    );
   }
 
   console.log(chalk.green(`Starting server on port ${PORT}... 🚀`));
-  if (!process.env.REDIS_HOST) {
-    console.warn(chalk.yellowBright('Redis not found. Cache disabled.'));
-  } else {
-    console.log(chalk.green(`Redis connected. Default Cache TTL: ${REDIS_TTL} seconds`));
-  }
+  cache.use(cache.createBackend(redis));
+  registerCacheHeaders(fastify, { shared: !requireApiKey });
+  console.log(
+    chalk.green(
+      `Cache backend: ${cache.backend().name}. Default Cache TTL: ${REDIS_TTL} seconds`,
+    ),
+  );
 
   if (!process.env.TMDB_KEY)
     console.warn(
       chalk.yellowBright('TMDB api key not found. the TMDB meta route may not work.'),
     );
 
+  if (!process.env.PROXY_SECRET)
+    console.warn(
+      chalk.yellowBright('Proxy secret not found. /utils/proxy will accept unsigned links.'),
+    );
+
   await fastify.register(books, { prefix: '/books' });
   await fastify.register(anime, { prefix: '/anime' });
   await fastify.register(manga, { prefix: '/manga' });
@@ -157,12 +169,6 @@ export const tmdbApi = process.env.TMDB_KEY && process.env.TMDB_KEY;
         }`,
       );
     });
-    fastify.get('*', (request, reply) => {
-      reply.status(404).send({
-        message: '',
-        error: 'page not found',
-      });
-    });
 
     fastify.listen({ port: PORT, host: '0.0.0.0' }, (e, address) => {
       if (e) throw e;
@@ -205,10 +211,9 @@ export default async function handler(req: any, res: any) {
       // Set timeout for Vercel (50 seconds max)
       const timeout = setTimeout(() => {
         if (!res.headersSent) {
-          res.status(504).json({
-            message: 'Request timeout',
-            error: 'The request took too long to process',
-          });
+          res
+            .status(504)
+            .json(errorBody(new UpstreamTimeout('The request took too long to process')));
         }
         resolve();
       }, 50000);
@@ -225,10 +230,8 @@ export default async function handler(req: any, res: any) {
       req.on('error', (err: Error) => {
         clearTimeout(timeout);
         if (!res.headersSent) {
-          res.status(500).json({
-            message: 'Request error',
-            error: err.message,
-          });
+          const apiError = toApiError(err);
+          res.status(apiError.statusCode).json(errorBody(apiError));
         }
         resolve();
       });
@@ -244,10 +247,8 @@ export default async function handler(req: any, res: any) {
   } catch (error: any) {
     console.error('[Vercel Handler] Error:', error);
     if (!res.headersSent) {
-      res.status(500).json({
-        message: 'Internal server error',
-        error: process.env.NODE_ENV === 'PROD' ? undefined : error?.message,
-      });
+      const apiError = toApiError(error);
+      res.status(apiError.statusCode).json(errorBody(apiError));
     }
   }
 }
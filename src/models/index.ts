@@ -1,3 +1,35 @@
-import { IBookProviderParams, LibgenBook } from './types';
+import {
+  AnimeInfo,
+  AnimeResult,
+  AudioTrack,
+  Episode,
+  IBookProviderParams,
+  LibgenBook,
+  MangaChapter,
+  MangaInfo,
+  MovieInfo,
+  Paged,
+  Segment,
+  SourceSet,
+  Subtitle,
+  Title,
+  Video,
+} from './types';
 
-export { IBookProviderParams, LibgenBook };
+export {
+  AnimeInfo,
+  AnimeResult,
+  AudioTrack,
+  Episode,
+  IBookProviderParams,
+  LibgenBook,
+  MangaChapter,
+  MangaInfo,
+  MovieInfo,
+  Paged,
+  Segment,
+  SourceSet,
+  Subtitle,
+  Title,
+  Video,
+};
@@ -35,3 +35,130 @@ interface Hashes {
   SHA256: string[];
   TTH: string;
 }
+
+/*
+ * Canonical response models. Routes pass their output through a normalizer from
+ * `utils/normalize`, so these fields are present whichever provider answered. Results,
+ * infos and episodes keep the extra fields of their provider.
+ */
+
+export interface Title {
+  romaji?: string;
+  english?: string;
+  native?: string;
+  userPreferred?: string;
+}
+
+export interface AnimeResult {
+  id: string;
+  // meta providers return every known title
+  title: string | Title;
+  url: string | null;
+  image: string | null;
+  type: string | null;
+  releaseDate: string | null;
+  status: string | null;
+  [key: string]: unknown;
+}
+
+// manga and movie searches share the shape
+export interface Paged<T> {
+  currentPage: number;
+  hasNextPage: boolean;
+  totalPages?: number;
+  totalResults?: number;
+  results: T[];
+  [key: string]: unknown;
+}
+
+export interface Episode {
+  id: string;
+  number: number | null;
+  title: string | null;
+  url: string | null;
+  // movies and shows only
+  season?: number;
+  [key: string]: unknown;
+}
+
+export interface AnimeInfo extends AnimeResult {
+  description: string | null;
+  genres: string[];
+  totalEpisodes: number | null;
+  episodes: Episode[];
+}
+
+export interface MovieInfo extends AnimeResult {
+  description: string | null;
+  genres: string[];
+  episodes: Episode[];
+}
+
+export interface MangaChapter {
+  id: string;
+  title: string | null;
+  number: number | null;
+  volume: number | null;
+  releaseDate: string | null;
+  [key: string]: unknown;
+}
+
+export interface MangaInfo extends AnimeResult {
+  description: string | null;
+  genres: string[];
+  chapters: MangaChapter[];
+}
+
+export interface Video {
+  url: string;
+  quality: string;
+  isM3U8: boolean;
+  isDASH?: boolean;
+  // an embed page rather than a stream, for players that can open one
+  type?: 'iframe';
+  // set with `?proxy=true`
+  proxyUrl?: string;
+  // set with `?expandQualities=true`, on the variants of a master playlist
+  resolution?: string;
+  bandwidth?: number;
+  codecs?: string;
+  frameRate?: number;
+  audio?: AudioTrack[];
+}
+
+// an alternative audio rendition of a master playlist, e.g. a dub
+export interface AudioTrack {
+  name: string;
+  language: string | null;
+  // null when the audio is muxed into the video
+  url: string | null;
+  default: boolean;
+  // set with `?proxy=true`, for tracks with a url
+  proxyUrl?: string;
+}
+
+export interface Subtitle {
+  url: string;
+  lang: string;
+  proxyUrl?: string;
+}
+
+// start and end of an intro or outro, in seconds
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+export interface SourceSet {
+  // to send along when requesting the sources
+  headers: Record<string, string>;
+  sources: Video[];
+  subtitles: Subtitle[];
+  intro?: Segment;
+  outro?: Segment;
+  // a single link, or one per quality
+  download: string | { url: string; quality: string }[] | null;
+  // the provider's player page, when it has one
+  embedURL: string | null;
+  [key: string]: unknown;
+}
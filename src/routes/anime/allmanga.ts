@@ -1,9 +1,46 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 import { load } from 'cheerio';
-import { Redis } from 'ioredis';
-import axios from 'axios';
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { EmbedSources, extractEmbed } from '../../utils/extractors';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { scraper, USER_AGENT } from '../../utils/scraper';
+import {
+  NotFound,
+  UpstreamBlocked,
+  UpstreamError,
+  UpstreamTimeout,
+  toApiError,
+} from '../../utils/errors';
+import {
+  SearchRequest,
+  flag,
+  object,
+  page,
+  searchSchema,
+  text,
+} from '../../utils/schemas';
+
+// the site answers its own searches from a GraphQL api
+const API_URL = 'https://api.allanime.day/api';
+const SITE_URL = 'https://allmanga.to';
+// thumbnails without a host are served from the site's image cdn
+const IMAGE_URL = 'https://wp.youtube-anime.com/aln.youtube-anime.com/';
+const PAGE_SIZE = 40;
+
+const SHOW_FIELDS =
+  '_id name englishName thumbnail type status season airedStart availableEpisodes';
+
+const SHOWS_QUERY = `query ($search: SearchInput, $limit: Int, $page: Int, $translationType: VaildTranslationTypeEnumType, $countryOrigin: VaildCountryOriginEnumType) {
+  shows(search: $search, limit: $limit, page: $page, translationType: $translationType, countryOrigin: $countryOrigin) {
+    edges { ${SHOW_FIELDS} }
+  }
+}`;
+
+const SHOW_QUERY = `query ($showId: String!) {
+  show(_id: $showId) { ${SHOW_FIELDS} nativeName description genres availableEpisodesDetail }
+}`;
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   const BASE_URL = 'https://allanime.day';
@@ -11,36 +48,180 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: "Welcome to the allmanga provider: check out the provider's website @ https://allmanga.to/bangumi/",
-      routes: ['/watch'],
-      documentation: 'Custom Allmanga provider for Cosmunet',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `allmanga:search:${query}:${page}`,
+        async () => await searchShows({ query }, page),
+        cache.policy('allmanga', 'search'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  // episode ids are opaque `<show>/p-<number>-<sub|dub>` paths for /watch
+  fastify.get(
+    '/info',
+    {
+      schema: { querystring: object({ id: text, dub: flag }, ['id']) },
+      config: { normalize: toAnimeInfo },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { id: string; dub?: boolean } }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.query.id;
+      const dub = request.query.dub ?? false;
+
+      const res = await cache.fetch(
+        `allmanga:info:${id}:${dub ? 'dub' : 'sub'}`,
+        async () => await fetchAnimeInfo(id, dub),
+        cache.policy('allmanga', 'info'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  // recently updated shows, newest episode first
+  fastify.get(
+    '/recent',
+    {
+      schema: { querystring: object({ page, dub: flag }) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { page?: number; dub?: boolean } }>,
+      reply: FastifyReply,
+    ) => {
+      const page = request.query.page ?? 1;
+      const dub = request.query.dub ?? false;
+
+      const res = await cache.fetch(
+        `allmanga:recent:${page}:${dub ? 'dub' : 'sub'}`,
+        async () => await searchShows({ sortBy: 'Recent' }, page, dub),
+        cache.policy('allmanga', 'schedule'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/watch',
+    {
+      schema: { querystring: object({ episodeId: text, proxy: flag }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; proxy?: boolean } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const proxy = request.query.proxy;
+
+      let res = await cache.fetch(
+        `allmanga:watch:${episodeId}`,
+        async () => await fetchEpisodeSources(episodeId),
+        cache.policy('allmanga', 'watch'),
+      );
 
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
+    },
+  );
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `allmanga:watch:${episodeId}`,
-          async () => await fetchEpisodeSources(episodeId),
-          REDIS_TTL,
-        )
-        : await fetchEpisodeSources(episodeId);
+  async function graphql(query: string, variables: Record<string, unknown>) {
+    const { data } = await scraper.get(API_URL, {
+      params: { query, variables: JSON.stringify(variables) },
+      headers: { Referer: SITE_URL, Origin: SITE_URL },
+    });
+    if (data?.errors?.length) throw new UpstreamError(data.errors[0].message);
 
-      reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('Allmanga watch error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
+    return data?.data ?? {};
+  }
+
+  const imageUrl = (thumbnail?: string) =>
+    !thumbnail ? '' : thumbnail.startsWith('http') ? thumbnail : IMAGE_URL + thumbnail;
+
+  const toResult = (show: any) => ({
+    id: show._id,
+    title: show.englishName || show.name,
+    url: `${SITE_URL}/bangumi/${show._id}`,
+    image: imageUrl(show.thumbnail),
+    type: show.type ?? null,
+    status: show.status ?? null,
+    releaseDate: String(show.airedStart?.year ?? show.season?.year ?? '') || null,
+    // episodes available per translation
+    sub: show.availableEpisodes?.sub ?? 0,
+    dub: show.availableEpisodes?.dub ?? 0,
+  });
+
+  async function searchShows(search: Record<string, unknown>, page: number, dub = false) {
+    try {
+      const { shows } = await graphql(SHOWS_QUERY, {
+        search: { allowAdult: false, allowUnknown: false, ...search },
+        limit: PAGE_SIZE,
+        page,
+        translationType: dub ? 'dub' : 'sub',
+        countryOrigin: 'ALL',
       });
+      const edges: any[] = shows?.edges ?? [];
+
+      return {
+        currentPage: page,
+        hasNextPage: edges.length === PAGE_SIZE,
+        results: edges.map(toResult),
+      };
+    } catch (err) {
+      throw toApiError(err);
     }
-  });
+  }
+
+  async function fetchAnimeInfo(id: string, dub: boolean) {
+    const { show } = await graphql(SHOW_QUERY, { showId: id }).catch((err) => {
+      throw toApiError(err, NotFound);
+    });
+    if (!show) throw new NotFound('Anime not found');
+
+    const subbed = new Set<string>(show.availableEpisodesDetail?.sub ?? []);
+    const dubbed = new Set<string>(show.availableEpisodesDetail?.dub ?? []);
+    const translation = dub ? 'dub' : 'sub';
+
+    // the api lists episode numbers as strings, newest first
+    const episodes = [...(dub ? dubbed : subbed)]
+      .sort((a, b) => parseFloat(a) - parseFloat(b))
+      .map((number) => ({
+        id: `${show._id}/p-${number}-${translation}`,
+        number: parseFloat(number),
+        title: `Episode ${number}`,
+        url: `${SITE_URL}/bangumi/${show._id}/p-${number}-${translation}`,
+        isSubbed: subbed.has(number),
+        isDubbed: dubbed.has(number),
+      }));
+
+    return {
+      ...toResult(show),
+      otherName: show.nativeName ?? null,
+      // html, with `<br>` between paragraphs
+      description: show.description
+        ? load(show.description.replace(/<br\s*\/?>/gi, '\n')).text().trim()
+        : null,
+      genres: show.genres ?? [],
+      hasSub: subbed.size > 0,
+      hasDub: dubbed.size > 0,
+      subOrDub: translation,
+      totalEpisodes: episodes.length,
+      episodes,
+    };
+  }
 
   async function fetchEpisodeSources(episodeId: string) {
     try {
@@ -50,20 +231,8 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
 
       console.log(`Fetching: ${episodeUrl}`);
 
-      // Fetch the page using axios
-      const response = await axios.get(episodeUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Referer': BASE_URL,
-        },
-        timeout: 30000,
-      });
+      // Fetch the page
+      const response = await scraper.get(episodeUrl);
 
       const content = response.data;
       console.log('Page content length:', content.length);
@@ -259,80 +428,20 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         new Map(sources.map(item => [item.url, item])).values()
       );
 
-      // If we found an iframe but no direct sources, try to fetch the iframe
+      // If we found an iframe but no direct sources, resolve its player. Its sources
+      // replace the page's, since they are played with the player's headers
+      let embed: EmbedSources | null = null;
       if (iframeSrc && (uniqueSources.length === 0 || !uniqueSources.some(s => s.isM3U8))) {
-        console.log('Trying to fetch iframe for additional sources:', iframeSrc);
-        try {
-          const iframeResponse = await axios.get(iframeSrc, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Referer': episodeUrl,
-            },
-            timeout: 30000,
-          });
-
-          const iframeContent = iframeResponse.data;
-
-          // Look for wixstatic URLs in iframe
-          const wixMatches = iframeContent.match(/https?:\/\/[^\s"']*wixstatic\.com[^\s"']*\.m3u8[^\s"']*/g);
-          if (wixMatches) {
-            wixMatches.forEach((url: string) => {
-              const cleanUrl = url.replace(/[\\'")\]},;]+$/, '');
-              if (!sources.find(s => s.url === cleanUrl)) {
-                console.log('Found wixstatic URL in iframe content:', cleanUrl);
-                sources.push({
-                  url: cleanUrl,
-                  quality: 'auto',
-                  isM3U8: true,
-                  source: 'iframe-content',
-                });
-              }
-            });
-          }
-
-          // Look for repackager URLs in iframe
-          const repackagerMatches = iframeContent.match(/https?:\/\/repackager\.wixmp\.com[^\s"']+\.m3u8[^\s"']*/g);
-          if (repackagerMatches) {
-            repackagerMatches.forEach((url: string) => {
-              const cleanUrl = url.replace(/[\\'")\]},;]+$/, '');
-              if (!sources.find(s => s.url === cleanUrl)) {
-                console.log('Found repackager URL in iframe content:', cleanUrl);
-                sources.push({
-                  url: cleanUrl,
-                  quality: 'auto',
-                  isM3U8: true,
-                  source: 'iframe-content',
-                });
-              }
-            });
-          }
-
-          // General m3u8 search in iframe
-          const m3u8Matches = iframeContent.match(/https?:\/\/[^\s"']+\.m3u8[^\s"']*/g);
-          if (m3u8Matches) {
-            m3u8Matches.forEach((url: string) => {
-              const cleanUrl = url.replace(/[\\'")\]},;]+$/, '');
-              if (!sources.find(s => s.url === cleanUrl)) {
-                console.log('Found m3u8 URL in iframe content:', cleanUrl);
-                sources.push({
-                  url: cleanUrl,
-                  quality: 'auto',
-                  isM3U8: true,
-                  source: 'iframe-content',
-                });
-              }
-            });
-          }
-        } catch (err) {
-          console.error('Error fetching iframe content:', err);
+        console.log('Resolving iframe player:', iframeSrc);
+        embed = await extractEmbed(iframeSrc, episodeUrl);
+        if (embed) {
+          uniqueSources = embed.sources.map((source) => ({
+            ...source,
+            source: 'iframe-content',
+          }));
         }
       }
 
-      // Update uniqueSources after iframe processing
-      uniqueSources = Array.from(
-        new Map(sources.map(item => [item.url, item])).values()
-      );
-
       console.log(`Found ${uniqueSources.length} unique sources after all processing`);
       console.log('Sources:', uniqueSources.map(s => ({ url: s.url.substring(0, 80), source: s.source })));
 
@@ -350,28 +459,33 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       console.log(`Returning ${uniqueSources.length} total sources`);
 
       return {
-        headers: {
-          Referer: BASE_URL,
-          Origin: BASE_URL,
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        },
+        headers: embed
+          ? embed.headers
+          : { Referer: BASE_URL, Origin: BASE_URL, 'User-Agent': USER_AGENT },
         sources: uniqueSources,
+        subtitles: embed?.subtitles ?? [],
         iframe: iframeSrc,
         download: uniqueSources.length > 0 ? uniqueSources[0].url : null,
       };
     } catch (err: any) {
-      console.error('Error fetching Allmanga episode sources:', err.message);
-
-      // Provide more specific error messages
       if (err.response?.status === 403 || err.message.includes('Cloudflare')) {
-        throw new Error('Access denied. The site may be blocking automated access.');
+        throw new UpstreamBlocked(
+          'Access denied. The site may be blocking automated access.',
+          { cause: err },
+        );
       } else if (err.message.includes('timeout') || err.code === 'ECONNABORTED') {
-        throw new Error('Request timeout. Allmanga.to may be slow or unreachable.');
+        throw new UpstreamTimeout(
+          'Request timeout. Allmanga.to may be slow or unreachable.',
+          { cause: err },
+        );
       } else if (err.response?.status === 404) {
-        throw new Error('Episode not found. It may not exist or be unavailable.');
+        throw new NotFound(
+          'Episode not found. It may not exist or be unavailable.',
+          { cause: err },
+        );
       }
 
-      throw new Error(`Failed to fetch episode sources: ${err.message}`);
+      throw toApiError(err);
     }
   }
 };
@@ -3,241 +3,196 @@ import { ANIME } from '@consumet/extensions';
 import { StreamingServers, SubOrSub } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  PageRequest,
+  SearchRequest,
+  flag,
+  idSchema,
+  object,
+  page,
+  pageSchema,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const animekai = new ANIME.AnimeKai();
+  const animekai = withProxyPool(new ANIME.AnimeKai());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the animekai provider: check out the provider's website @ ${animekai.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/latest-completed',
-        '/new-releases',
-        '/recent-added',
-        '/recent-episodes',
-        '/schedule/:date',
-        '/spotlight',
-        '/search-suggestions/:query',
-        '/servers',
-        '/info',
-        '/watch/:episodeId',
-        '/genre/list',
-        '/genre/:genre',
-        '/movies',
-        '/ona',
-        '/ova',
-        '/specials',
-        '/tv',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/animekai',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-    const page = (request.query as { page: number }).page;
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:search:${query}:${page}`,
-          async () => await animekai.search(query, page),
-          REDIS_TTL,
-        )
-        : await animekai.search(query, page);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `animekai:search:${query}:${page}`,
+        async () => await animekai.search(query, page),
+        cache.policy('animekai', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/latest-completed',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const page = (request.query as { page: number }).page;
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `animekai:latest-completed:${page}`,
-            async () => await animekai.fetchLatestCompleted(page),
-            REDIS_TTL,
-          )
-          : await animekai.fetchLatestCompleted(page);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message: 'Something went wrong. Contact developer for help.',
-        });
-      }
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:latest-completed:${page}`,
+        async () => await animekai.fetchLatestCompleted(page),
+        cache.policy('animekai', 'schedule'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/new-releases', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:new-releases:${page}`,
-          async () => await animekai.fetchNewReleases(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchNewReleases(page);
+  fastify.get(
+    '/new-releases',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:new-releases:${page}`,
+        async () => await animekai.fetchNewReleases(page),
+        cache.policy('animekai', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
-  fastify.get('/recent-added', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:recent-added:${page}`,
-          async () => await animekai.fetchRecentlyAdded(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchRecentlyAdded(page);
+  fastify.get(
+    '/recent-added',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:recent-added:${page}`,
+        async () => await animekai.fetchRecentlyAdded(page),
+        cache.policy('animekai', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/recent-episodes',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const page = (request.query as { page: number }).page;
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `animekai:recent-episodes:${page}`,
-            async () => await animekai.fetchRecentlyUpdated(page),
-            REDIS_TTL,
-          )
-          : await animekai.fetchRecentlyUpdated(page);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message: 'Something went wrong. Contact developer for help.',
-        });
-      }
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:recent-episodes:${page}`,
+        async () => await animekai.fetchRecentlyUpdated(page),
+        cache.policy('animekai', 'schedule'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/schedule/:date', async (request: FastifyRequest, reply: FastifyReply) => {
-    const date = (request.params as { date: string }).date;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:schedule:${date}`,
-          async () => await animekai.fetchSchedule(date),
-          REDIS_TTL,
-        )
-        : await animekai.fetchSchedule(date);
+  fastify.get(
+    '/schedule/:date',
+    { schema: { params: object({ date: text }, ['date']) } },
+    async (
+      request: FastifyRequest<{ Params: { date: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const date = request.params.date;
+      let res = await cache.fetch(
+        `animekai:schedule:${date}`,
+        async () => await animekai.fetchSchedule(date),
+        cache.policy('animekai', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
-  fastify.get('/spotlight', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:spotlight`,
-          async () => await animekai.fetchSpotlight(),
-          REDIS_TTL,
-        )
-        : await animekai.fetchSpotlight();
+  fastify.get(
+    '/spotlight',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `animekai:spotlight`,
+        async () => await animekai.fetchSpotlight(),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/search-suggestions/:query',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const query = (request.params as { query: string }).query;
-
-      if (typeof query === 'undefined')
-        return reply.status(400).send({ message: 'query is required' });
+    { schema: { params: object({ query: text }, ['query']) } },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
+
+      let res = await cache.fetch(
+        `animekai:suggestions:${query}`,
+        async () => await animekai.fetchSearchSuggestions(query),
+        cache.policy('animekai', 'search'),
+      );
 
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `animekai:suggestions:${query}`,
-            async () => await animekai.fetchSearchSuggestions(query),
-            REDIS_TTL,
-          )
-          : await animekai.fetchSearchSuggestions(query);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message: 'Something went wrong. Contact developer for help.',
-        });
-      }
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
-
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toAnimeInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:info:${id}`,
-          async () => await animekai.fetchAnimeInfo(id),
-          REDIS_TTL,
-        )
-        : await animekai.fetchAnimeInfo(id);
+      let res = await cache.fetch(
+        `animekai:info:${id}`,
+        async () => await animekai.fetchAnimeInfo(id),
+        cache.policy('animekai', 'info'),
+      );
 
       return reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      let episodeId = (request.params as { episodeId: string }).episodeId;
+    {
+      schema: {
+        params: object({ episodeId: text }, ['episodeId']),
+        querystring: object({ server, dub: flag, proxy: flag }),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { episodeId: string };
+        Querystring: { server?: StreamingServers; dub?: boolean; proxy?: boolean };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      let episodeId = request.params.episodeId;
       // Decode URL-encoded episodeId to handle special characters like $, &, etc.
       try {
         episodeId = decodeURIComponent(episodeId);
@@ -246,51 +201,45 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         console.warn('Failed to decode episodeId:', episodeId, e);
       }
 
-      const server = (request.query as { server: string }).server as StreamingServers;
+      const server = request.query.server;
 
-      let dub = (request.query as { dub?: string | boolean }).dub;
-      if (dub === 'true' || dub === '1') dub = true;
+      let dub = request.query.dub;
+      if (dub) dub = true;
       else dub = false;
 
-      if (server && !Object.values(StreamingServers).includes(server))
-        return reply.status(400).send({ message: 'server is invalid' });
+      const proxy = request.query.proxy;
 
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'id is required' });
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `animekai:watch:${episodeId}:${server}:${dub}`,
-            async () =>
-              await animekai.fetchEpisodeSources(
-                episodeId,
-                server,
-                dub === true ? SubOrSub.DUB : SubOrSub.SUB,
-              ),
-            REDIS_TTL,
-          )
-          : await animekai.fetchEpisodeSources(
+      let res = await cache.fetch(
+        `animekai:watch:${episodeId}:${server}:${dub}`,
+        async () =>
+          await animekai.fetchEpisodeSources(
             episodeId,
             server,
             dub === true ? SubOrSub.DUB : SubOrSub.SUB,
-          );
-
-        reply.status(200).send(res);
-      } catch (err) {
-        console.error('Error fetching episode sources:', err);
-        console.error('EpisodeId:', episodeId);
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+          ),
+        cache.policy('animekai', 'watch'),
+      );
+
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
     },
   );
 
   fastify.get(
     '/servers/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      let episodeId = (request.params as { episodeId: string }).episodeId;
+    {
+      schema: {
+        params: object({ episodeId: text }, ['episodeId']),
+        querystring: object({ dub: flag }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { episodeId: string };
+        Querystring: { dub?: boolean };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      let episodeId = request.params.episodeId;
       // Decode URL-encoded episodeId to handle special characters like $, &, etc.
       try {
         episodeId = decodeURIComponent(episodeId);
@@ -299,176 +248,133 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         console.warn('Failed to decode episodeId:', episodeId, e);
       }
 
-      let dub = (request.query as { dub?: string | boolean }).dub;
-      if (dub === 'true' || dub === '1') dub = true;
+      let dub = request.query.dub;
+      if (dub) dub = true;
       else dub = false;
 
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'id is required' });
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `animekai:servers:${episodeId}:${dub}`,
-            async () =>
-              await animekai.fetchEpisodeServers(
-                episodeId,
-                dub === true ? SubOrSub.DUB : SubOrSub.SUB,
-              ),
-            REDIS_TTL,
-          )
-          : await animekai.fetchEpisodeServers(
+      let res = await cache.fetch(
+        `animekai:servers:${episodeId}:${dub}`,
+        async () =>
+          await animekai.fetchEpisodeServers(
             episodeId,
             dub === true ? SubOrSub.DUB : SubOrSub.SUB,
-          );
-
-        reply.status(200).send(res);
-      } catch (err) {
-        console.error('Error fetching episode servers:', err);
-        console.error('EpisodeId:', episodeId);
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+          ),
+        cache.policy('animekai', 'watch'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
   fastify.get('/genre/list', async (_, reply) => {
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:genre-list`,
-          async () => await animekai.fetchGenres(),
-          REDIS_TTL,
-        )
-        : await animekai.fetchGenres();
+    let res = await cache.fetch(
+      `animekai:genre-list`,
+      async () => await animekai.fetchGenres(),
+      cache.policy('animekai', 'info'),
+    );
 
-      reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
+    reply.status(200).send(res);
   });
 
-  fastify.get('/genre/:genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genre = (request.params as { genre: string }).genre;
-    const page = (request.query as { page: number }).page;
-
-    if (typeof genre === 'undefined')
-      return reply.status(400).send({ message: 'genre is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:genre:${genre}:${page}`,
-          async () => await animekai.genreSearch(genre, page),
-          REDIS_TTL,
-        )
-        : await animekai.genreSearch(genre, page);
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `animekai:genre:${genre}:${page}`,
+        async () => await animekai.genreSearch(genre, page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
+    },
+  );
 
-  fastify.get('/movies', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:movies:${page}`,
-          async () => await animekai.fetchMovie(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchMovie(page);
+  fastify.get(
+    '/movies',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:movies:${page}`,
+        async () => await animekai.fetchMovie(page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/ona', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:ona:${page}`,
-          async () => await animekai.fetchONA(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchONA(page);
+  fastify.get(
+    '/ona',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:ona:${page}`,
+        async () => await animekai.fetchONA(page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/ova', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:ova:${page}`,
-          async () => await animekai.fetchOVA(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchOVA(page);
+  fastify.get(
+    '/ova',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:ova:${page}`,
+        async () => await animekai.fetchOVA(page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/specials', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:specials:${page}`,
-          async () => await animekai.fetchSpecial(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchSpecial(page);
+  fastify.get(
+    '/specials',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:specials:${page}`,
+        async () => await animekai.fetchSpecial(page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/tv', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `animekai:tv:${page}`,
-          async () => await animekai.fetchTV(page),
-          REDIS_TTL,
-        )
-        : await animekai.fetchTV(page);
+  fastify.get(
+    '/tv',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `animekai:tv:${page}`,
+        async () => await animekai.fetchTV(page),
+        cache.policy('animekai', 'trending'),
+      );
 
       reply.status(200).send(res);
       if (res) {
@@ -477,12 +383,8 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
           Referer: 'https://kwik.cx',
         };
       }
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
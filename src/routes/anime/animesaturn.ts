@@ -1,117 +1,99 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 import { ANIME } from '@consumet/extensions';
-import Redis from 'ioredis/built';
-import { redis, REDIS_TTL } from '../../main';
 import cache from '../../utils/cache';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import { IdRequest, idSchema, object, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const animesaturn = new ANIME.AnimeSaturn();
+  const animesaturn = withProxyPool(new ANIME.AnimeSaturn());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro:
         "Welcome to the animesaturn provider: check out the provider's website @ https://www.animesaturn.tv/",
-      routes: ['/:query', '/info/:id', '/watch/:episodeId'],
-      documentation: 'https://docs.consumet.org/#tag/animesaturn',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `animesaturn:search:${query}`,
-            async () => await animesaturn.search(query),
-            REDIS_TTL,
-          )
-        : await animesaturn.search(query);
+  fastify.get(
+    '/:query',
+    {
+      schema: { params: object({ query: text }, ['query']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
+
+      let res = await cache.fetch(
+        `animesaturn:search:${query}`,
+        async () => await animesaturn.search(query),
+        cache.policy('animesaturn', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toAnimeInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `animesaturn:info:${id}`,
-            async () => await animesaturn.fetchAnimeInfo(id),
-            REDIS_TTL,
-          )
-        : await animesaturn.fetchAnimeInfo(id);
+      let res = await cache.fetch(
+        `animesaturn:info:${id}`,
+        async () => await animesaturn.fetchAnimeInfo(id),
+        cache.policy('animesaturn', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'episodeId is required' });
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `animesaturn:watch:${episodeId}`,
-              async () => await animesaturn.fetchEpisodeSources(episodeId),
-              REDIS_TTL,
-            )
-          : await animesaturn.fetchEpisodeSources(episodeId);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    {
+      schema: { params: object({ episodeId: text }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{ Params: { episodeId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
+
+      let res = await cache.fetch(
+        `animesaturn:watch:${episodeId}`,
+        async () => await animesaturn.fetchEpisodeSources(episodeId),
+        cache.policy('animesaturn', 'watch'),
+      );
+
+      return reply.status(200).send(res);
     },
   );
 
   fastify.get(
     '/servers/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'episodeId is required' });
+    { schema: { params: object({ episodeId: text }, ['episodeId']) } },
+    async (
+      request: FastifyRequest<{ Params: { episodeId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
+
+      let res = await cache.fetch(
+        `animesaturn:servers:${episodeId}`,
+        async () => await animesaturn.fetchEpisodeServers(episodeId),
+        cache.policy('animesaturn', 'watch'),
+      );
 
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `animesaturn:servers:${episodeId}`,
-              async () => await animesaturn.fetchEpisodeServers(episodeId),
-              REDIS_TTL,
-            )
-          : await animesaturn.fetchEpisodeServers(episodeId);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+      reply.status(200).send(res);
     },
   );
 };
@@ -2,90 +2,86 @@ import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from '
 import { ANIME } from '@consumet/extensions';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import { object, page, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const animeunity = new ANIME.AnimeUnity();
+  const animeunity = withProxyPool(new ANIME.AnimeUnity());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the animeunity provider: check out the provider's website @ ${animeunity.toString.baseUrl}`,
-      routes: ['/:query', '/info', '/watch/:episodeId'],
-      documentation: 'https://docs.consumet.org/#tag/animeunity',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
+  fastify.get(
+    '/:query',
+    {
+      schema: { params: object({ query: text }, ['query']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `animeunity:search:${query}`,
-            async () => await animeunity.search(query),
-            REDIS_TTL,
-          )
-        : await animeunity.search(query);
+      let res = await cache.fetch(
+        `animeunity:search:${query}`,
+        async () => await animeunity.search(query),
+        cache.policy('animeunity', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
-    const page = (request.query as { page: number }).page;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    {
+      schema: { querystring: object({ id: text, page }, ['id']) },
+      config: { normalize: toAnimeInfo },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { id: string; page?: number } }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.query.id;
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `animeunity:info:${id}:${page}`,
-            async () => await animeunity.fetchAnimeInfo(id, page),
-            REDIS_TTL,
-          )
-        : await animeunity.fetchAnimeInfo(id, page);
+      let res = await cache.fetch(
+        `animeunity:info:${id}:${page}`,
+        async () => await animeunity.fetchAnimeInfo(id, page),
+        cache.policy('animeunity', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'episodeId is required' });
+    {
+      schema: { params: object({ episodeId: text }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{ Params: { episodeId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
 
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `animeunity:watch:${episodeId}`,
-              async () => await animeunity.fetchEpisodeSources(episodeId),
-              REDIS_TTL,
-            )
-          : await animeunity.fetchEpisodeSources(episodeId);
+      let res = await cache.fetch(
+        `animeunity:watch:${episodeId}`,
+        async () => await animeunity.fetchEpisodeSources(episodeId),
+        cache.policy('animeunity', 'watch'),
+      );
 
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+      return reply.status(200).send(res);
     },
   );
 };
@@ -1,9 +1,29 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
-import axios from 'axios';
 import { load } from 'cheerio';
 
+import cache from '../../utils/cache';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { EmbedSources, extractEmbed } from '../../utils/extractors';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { scraper, USER_AGENT } from '../../utils/scraper';
+import { toApiError } from '../../utils/errors';
+import {
+  PageRequest,
+  SearchRequest,
+  flag,
+  object,
+  page,
+  pageSchema,
+  searchSchema,
+  text,
+} from '../../utils/schemas';
+
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   const BASE_URL = 'https://animeyy.com';
+  // `f[sortby]` values of the search page
+  const SORT_LATEST_EPISODE = 'lastest-chap';
+  const SORT_TITLE = 'az';
 
   // Helper to clean URLs (remove newlines, whitespace, etc.)
   const cleanUrl = (url: string): string => {
@@ -13,86 +33,180 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: "Welcome to the animeyy provider: check out the provider's website @ https://animeyy.com",
-      routes: ['/:query', '/info', '/watch'],
-      documentation: 'Custom AnimeYY provider for Cosmunet',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
   // Search endpoint
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-    const page = (request.query as { page?: number }).page || 1;
-
-    if (typeof query === 'undefined')
-      return reply.status(400).send({ message: 'query is required' });
-
-    try {
-      const res = await searchAnime(query, page);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page || 1;
+
+      const res = await cache.fetch(
+        `animeyy:search:${query}:${page}`,
+        async () => await searchAnime(query, page),
+        cache.policy('animeyy', 'search'),
+      );
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('AnimeYY search error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
-  });
+    },
+  );
 
   // Info endpoint
   // Use ?page=1 for episodes 1-100, ?page=2 for 101-200, etc.
   // Omit page to fetch ALL episodes
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
-    const page = (request.query as { page?: string }).page
-      ? parseInt((request.query as { page: string }).page)
-      : undefined;
-
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
-
-    try {
-      const res = await fetchAnimeInfo(id, page);
+  fastify.get(
+    '/info',
+    {
+      schema: { querystring: object({ id: text, page }, ['id']) },
+      config: { normalize: toAnimeInfo },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { id: string; page?: number } }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.query.id;
+      const page = request.query.page;
+
+      const res = await cache.fetch(
+        `animeyy:info:${id}:${page ?? 'all'}`,
+        async () => await fetchAnimeInfo(id, page),
+        cache.policy('animeyy', 'info'),
+      );
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('AnimeYY info error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
-  });
+    },
+  );
 
   // Watch endpoint
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-
-    try {
-      const res = await fetchEpisodeSources(episodeId);
+  fastify.get(
+    '/watch',
+    {
+      schema: { querystring: object({ episodeId: text, proxy: flag }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; proxy?: boolean } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const proxy = request.query.proxy;
+
+      const res = await cache.fetch(
+        `animeyy:watch:${episodeId}`,
+        async () => await fetchEpisodeSources(episodeId),
+        cache.policy('animeyy', 'watch'),
+      );
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
+    },
+  );
+
+  // Latest episodes first
+  fastify.get(
+    '/recent-episodes',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `animeyy:recent-episodes:${page}`,
+        async () => await fetchList({ 'f[sortby]': SORT_LATEST_EPISODE }, page),
+        cache.policy('animeyy', 'schedule'),
+      );
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('AnimeYY watch error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
+    },
+  );
+
+  fastify.get(
+    '/ongoing',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `animeyy:ongoing:${page}`,
+        async () =>
+          await fetchList(
+            { 'f[status]': 'ongoing', 'f[sortby]': SORT_LATEST_EPISODE },
+            page,
+          ),
+        cache.policy('animeyy', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/az-list',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `animeyy:az-list:${page}`,
+        async () => await fetchList({ 'f[sortby]': SORT_TITLE }, page),
+        cache.policy('animeyy', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get('/genre/list', async (_, reply) => {
+    const res = await cache.fetch(
+      `animeyy:genre-list`,
+      async () => await fetchGenres(),
+      cache.policy('animeyy', 'info'),
+    );
+    reply.status(200).send(res);
   });
 
+  // takes the ids of /genre/list
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `animeyy:genre:${genre}:${page}`,
+        async () =>
+          await fetchList({ 'f[genres]': genre, 'f[sortby]': SORT_LATEST_EPISODE }, page),
+        cache.policy('animeyy', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
   async function searchAnime(query: string, page: number = 1) {
+    return await fetchList({ 'f[sortby]': 'top-manga', 'f[keyword]': query }, page);
+  }
+
+  // the site's search page backs search and every listing, picked with `f[...]` filters
+  async function fetchList(filters: Record<string, string>, page: number = 1) {
     try {
-      const searchUrl = `${BASE_URL}/?act=search&f[status]=all&f[sortby]=top-manga&f[keyword]=${encodeURIComponent(query)}&page=${page}`;
-
-      const { data } = await axios.get(searchUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Referer': BASE_URL,
-        },
+      const params = new URLSearchParams({
+        act: 'search',
+        'f[status]': 'all',
+        ...filters,
       });
+      const searchUrl = `${BASE_URL}/?${params}&page=${page}`;
+
+      const { data } = await scraper.get(searchUrl);
 
       const $ = load(data);
       const results: any[] = [];
@@ -165,27 +279,46 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
 
       return {
         currentPage: page,
+        // compared whole, `page=2` is also a substring of `page=20`
+        hasNextPage: $('a[href*="page="]')
+          .toArray()
+          .some(
+            (el) =>
+              new URL($(el).attr('href') ?? '', BASE_URL).searchParams.get('page') ===
+              String(page + 1),
+          ),
         results,
       };
     } catch (err: any) {
-      console.error('Error searching AnimeYY:', err.message);
-      throw new Error(`Failed to search: ${err.message}`);
+      throw toApiError(err);
     }
   }
 
+  // the genre filter of the search page
+  async function fetchGenres() {
+    const { data } = await scraper.get(`${BASE_URL}/?act=search`);
+
+    const $ = load(data);
+    const genres: { id: string; name: string }[] = [];
+    $('input[name^="f[genres]"]').each((_, el) => {
+      const id = $(el).attr('value') || '';
+      const name =
+        $(el).attr('title') ||
+        $(el).closest('label').text().trim() ||
+        $(el).next().text().trim();
+      if (id && name && !genres.some((genre) => genre.id === id))
+        genres.push({ id, name });
+    });
+
+    return genres;
+  }
+
   async function fetchAnimeInfo(id: string, page?: number) {
     try {
       const cleanId = id.replace(/^\/+|\/+$/g, '');
       const animeUrl = `${BASE_URL}/${cleanId}/`;
 
-      const { data } = await axios.get(animeUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Referer': BASE_URL,
-        },
-      });
+      const { data } = await scraper.get(animeUrl);
 
       const $ = load(data);
 
@@ -255,9 +388,8 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
           try {
             const ajaxUrl = `${BASE_URL}/?act=ajax&code=load_list_chapter&manga_id=${mangaId}&page_num=${pageNum}&chap_id=0&keyword=`;
 
-            const { data: ajaxData } = await axios.get(ajaxUrl, {
+            const { data: ajaxData } = await scraper.get(ajaxUrl, {
               headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
                 'Accept': '*/*',
                 'X-Requested-With': 'XMLHttpRequest',
                 'Referer': animeUrl,
@@ -340,8 +472,7 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
 
       return response;
     } catch (err: any) {
-      console.error('Error fetching AnimeYY info:', err.message);
-      throw new Error(`Failed to fetch anime info: ${err.message}`);
+      throw toApiError(err);
     }
   }
 
@@ -351,14 +482,7 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       const cleanEpisodeId = episodeId.replace(/^\/+|\/+$/g, '');
       const episodeUrl = `${BASE_URL}/${cleanEpisodeId}/`;
 
-      const { data } = await axios.get(episodeUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Referer': BASE_URL,
-        },
-      });
+      const { data } = await scraper.get(episodeUrl);
 
       const $ = load(data);
       const sources: any[] = [];
@@ -425,33 +549,11 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         });
       });
 
-      // If we found an iframe but no direct sources, try to fetch from the iframe
+      // If we found an iframe but no direct sources, resolve its player
+      let embed: EmbedSources | null = null;
       if (sources.length === 0 && iframeSrc) {
-        try {
-          const iframeResponse = await axios.get(iframeSrc, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Referer': episodeUrl,
-            },
-          });
-
-          const iframeData = iframeResponse.data;
-
-          // Look for m3u8 URLs in iframe content
-          const m3u8Matches = iframeData.match(/https?:\/\/[^\s"']+\.m3u8[^\s"']*/g);
-          if (m3u8Matches) {
-            m3u8Matches.forEach((url: string) => {
-              const cleaned = cleanUrl(url);
-              sources.push({
-                url: cleaned,
-                quality: 'auto',
-                isM3U8: true,
-              });
-            });
-          }
-        } catch (err) {
-          console.error('Error fetching iframe content:', err);
-        }
+        embed = await extractEmbed(iframeSrc, episodeUrl);
+        if (embed) sources.push(...embed.sources);
       }
 
       // Remove duplicates
@@ -481,17 +583,17 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       const fixedIframeSrc = iframeSrc ? (iframeSrc as string).replace(/\/embed\//g, '/anime/') : null;
 
       return {
-        headers: {
+        headers: embed?.headers ?? {
           Referer: BASE_URL,
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'User-Agent': USER_AGENT,
         },
         sources: fixedSources,
+        subtitles: embed?.subtitles ?? [],
         iframe: fixedIframeSrc,
         download: fixedSources.length > 0 ? fixedSources[0].url : null,
       };
     } catch (err: any) {
-      console.error('Error fetching AnimeYY episode sources:', err.message);
-      throw new Error(`Failed to fetch episode sources: ${err.message}`);
+      throw toApiError(err);
     }
   }
 };
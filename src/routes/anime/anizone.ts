@@ -1,192 +1,310 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
-import axios from 'axios';
 import { load } from 'cheerio';
-import { Redis } from 'ioredis';
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { EmbedSources, extractEmbed } from '../../utils/extractors';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { scraper, USER_AGENT } from '../../utils/scraper';
+import {
+  NotFound,
+  ParseError,
+  UpstreamBlocked,
+  UpstreamTimeout,
+  toApiError,
+} from '../../utils/errors';
+import {
+  PageRequest,
+  SearchRequest,
+  flag,
+  object,
+  page,
+  pageSchema,
+  searchSchema,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   const BASE_URL = 'https://anizone.to';
+  // `sort` values of the site's anime list
+  const SORT_LATEST_EPISODE = 'latest-episode';
+  const SORT_TITLE = 'title-asc';
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: "Welcome to the anizone provider: check out the provider's website @ https://anizone.to",
-      routes: ['/:query', '/info/:id', '/watch/:episodeId'],
-      documentation: 'Custom Anizone provider for Cosmunet',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
   // Search endpoint
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-
-    if (typeof query === 'undefined')
-      return reply.status(400).send({ message: 'query is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `anizone:search:${query}`,
-          async () => await searchAnime(query),
-          REDIS_TTL,
-        )
-        : await searchAnime(query);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page ?? 1;
+
+      let res = await cache.fetch(
+        `anizone:search:${query}:${page}`,
+        async () => await searchAnime(query, page),
+        cache.policy('anizone', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('Anizone search error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
-  });
+    },
+  );
 
   // Info endpoint
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = decodeURIComponent((request.params as { id: string }).id);
-
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `anizone:info:${id}`,
-          async () => await fetchAnimeInfo(id),
-          REDIS_TTL,
-        )
-        : await fetchAnimeInfo(id);
+  fastify.get(
+    '/info/:id',
+    {
+      schema: { params: object({ id: text }, ['id']) },
+      config: { normalize: toAnimeInfo },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const id = decodeURIComponent(request.params.id);
+
+      let res = await cache.fetch(
+        `anizone:info:${id}`,
+        async () => await fetchAnimeInfo(id),
+        cache.policy('anizone', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('Anizone info error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
-  });
+    },
+  );
 
   // Watch endpoint
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `anizone:watch:${episodeId}`,
-          async () => await fetchEpisodeSources(episodeId),
-          REDIS_TTL,
-        )
-        : await fetchEpisodeSources(episodeId);
+  fastify.get(
+    '/watch',
+    {
+      schema: { querystring: object({ episodeId: text, proxy: flag }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; proxy?: boolean } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const proxy = request.query.proxy;
+
+      let res = await cache.fetch(
+        `anizone:watch:${episodeId}`,
+        async () => await fetchEpisodeSources(episodeId),
+        cache.policy('anizone', 'watch'),
+      );
 
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
+    },
+  );
+
+  // Latest episodes first
+  fastify.get(
+    '/recent-episodes',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `anizone:recent-episodes:${page}`,
+        async () => await fetchList(`/anime?sort=${SORT_LATEST_EPISODE}`, page),
+        cache.policy('anizone', 'schedule'),
+      );
       reply.status(200).send(res);
-    } catch (err: any) {
-      console.error('Anizone watch error:', err);
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-        error: err.message || 'Unknown error',
-      });
-    }
+    },
+  );
+
+  fastify.get(
+    '/ongoing',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `anizone:ongoing:${page}`,
+        async () =>
+          await fetchList(`/anime?status=ongoing&sort=${SORT_LATEST_EPISODE}`, page),
+        cache.policy('anizone', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/az-list',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `anizone:az-list:${page}`,
+        async () => await fetchList(`/anime?sort=${SORT_TITLE}`, page),
+        cache.policy('anizone', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get('/genre/list', async (_, reply) => {
+    const res = await cache.fetch(
+      `anizone:genre-list`,
+      async () => await fetchGenres(),
+      cache.policy('anizone', 'info'),
+    );
+    reply.status(200).send(res);
   });
 
+  // genres are the site's tags, e.g. `/genre/action`
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page ?? 1;
+
+      const res = await cache.fetch(
+        `anizone:genre:${genre}:${page}`,
+        async () => await fetchList(`/tag/${encodeURIComponent(genre)}`, page),
+        cache.policy('anizone', 'trending'),
+      );
+      reply.status(200).send(res);
+    },
+  );
+
   // Helper function to search anime
-  async function searchAnime(query: string) {
+  async function searchAnime(query: string, page: number = 1) {
     try {
       // Fix: Use correct search URL pattern with + for spaces
       const searchQuery = query.replace(/\s+/g, '+');
-      const searchUrl = `${BASE_URL}/anime?search=${searchQuery}`;
-
-      const { data } = await axios.get(searchUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': BASE_URL,
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        timeout: 30000,
-      });
 
-      const $ = load(data);
-      const results: any[] = [];
-
-      // Parse search results - try multiple selector patterns
-      $('.anime-item, .item, .card, .ani, .film_list-wrap .flw-item, .grid > div, .anime-list .item').each((i, el) => {
-        const $el = $(el);
-
-        // Try multiple title selectors
-        const title = $el.find('.title, .film-name a, h3 a, h3, .name, a[title]').first().text().trim() ||
-          $el.find('a').attr('title')?.trim() || '';
-
-        // Extract ID from href
-        const href = $el.find('a[href*="/anime/"]').first().attr('href') ||
-          $el.find('a').first().attr('href') || '';
-
-        // Extract just the anime ID, handling both full URLs and relative paths
-        let id = '';
-        if (href) {
-          // Match pattern: /anime/{id} or https://anizone.to/anime/{id}
-          const idMatch = href.match(/\/anime\/([^/\?#]+)/);
-          if (idMatch) {
-            id = idMatch[1];
-          }
-        }
-
-        // Try multiple image selectors
-        const image = $el.find('img').attr('src') ||
-          $el.find('img').attr('data-src') ||
-          $el.find('.poster img, img').first().attr('src') || '';
-
-        // Extract metadata
-        const releaseDate = $el.find('.release-date, .year, .fdi-item:contains("Released")').text().trim();
-        const type = $el.find('.type, .badge, .fdi-item:contains("Type")').text().trim();
-        const status = $el.find('.status').text().trim();
-
-        if (title && id) {
-          results.push({
-            id: id,
-            title: title,
-            image: image.startsWith('http') ? image : (image ? `${BASE_URL}${image}` : ''),
-            releaseDate: releaseDate || null,
-            type: type || null,
-            status: status || null,
-            url: `${BASE_URL}/anime/${id}`,
-          });
-        }
-      });
-
-      return {
-        currentPage: 1,
-        hasNextPage: $('.pagination .next, .pagination a:contains("Next")').length > 0,
-        results: results,
-      };
+      return await fetchList(`/anime?search=${searchQuery}`, page);
     } catch (err: any) {
-      console.error('Error searching anime on Anizone:', err.message);
-
-      // Enhanced error handling
       if (err.response?.status === 403 || err.message.includes('Cloudflare')) {
-        throw new Error('Access denied. The site may be blocking automated access.');
+        throw new UpstreamBlocked(
+          'Access denied. The site may be blocking automated access.',
+          { cause: err },
+        );
       } else if (err.message.includes('timeout') || err.code === 'ECONNABORTED') {
-        throw new Error('Request timeout. Anizone.to may be slow or unreachable.');
+        throw new UpstreamTimeout(
+          'Request timeout. Anizone.to may be slow or unreachable.',
+          { cause: err },
+        );
       } else if (err.response?.status === 404) {
-        throw new Error('Search endpoint not found. URL pattern may have changed.');
+        throw new ParseError(
+          'Search endpoint not found. URL pattern may have changed.',
+          { cause: err },
+        );
       }
 
-      throw new Error(`Failed to search anime: ${err.message}`);
+      throw toApiError(err);
     }
   }
 
+  // Search and the listings share the markup of the anime list
+  async function fetchList(path: string, page: number) {
+    const { data } = await scraper.get(`${BASE_URL}${path}`, { params: { page } });
+
+    const $ = load(data);
+    const results: any[] = [];
+
+    // Parse list items - try multiple selector patterns
+    $(
+      '.anime-item, .item, .card, .ani, .film_list-wrap .flw-item, .grid > div, .anime-list .item',
+    ).each((i, el) => {
+      const $el = $(el);
+
+      // Try multiple title selectors
+      const title =
+        $el
+          .find('.title, .film-name a, h3 a, h3, .name, a[title]')
+          .first()
+          .text()
+          .trim() ||
+        $el.find('a').attr('title')?.trim() ||
+        '';
+
+      // Extract ID from href
+      const href =
+        $el.find('a[href*="/anime/"]').first().attr('href') ||
+        $el.find('a').first().attr('href') ||
+        '';
+
+      // Extract just the anime ID, handling both full URLs and relative paths
+      let id = '';
+      if (href) {
+        // Match pattern: /anime/{id} or https://anizone.to/anime/{id}
+        const idMatch = href.match(/\/anime\/([^/\?#]+)/);
+        if (idMatch) {
+          id = idMatch[1];
+        }
+      }
+
+      // Try multiple image selectors
+      const image =
+        $el.find('img').attr('src') ||
+        $el.find('img').attr('data-src') ||
+        $el.find('.poster img, img').first().attr('src') ||
+        '';
+
+      // Extract metadata
+      const releaseDate = $el
+        .find('.release-date, .year, .fdi-item:contains("Released")')
+        .text()
+        .trim();
+      const type = $el.find('.type, .badge, .fdi-item:contains("Type")').text().trim();
+      const status = $el.find('.status').text().trim();
+
+      if (title && id) {
+        results.push({
+          id: id,
+          title: title,
+          image: image.startsWith('http') ? image : image ? `${BASE_URL}${image}` : '',
+          releaseDate: releaseDate || null,
+          type: type || null,
+          status: status || null,
+          url: `${BASE_URL}/anime/${id}`,
+        });
+      }
+    });
+
+    return {
+      currentPage: page,
+      hasNextPage:
+        $('.pagination .next, .pagination a:contains("Next"), a[rel="next"]').length > 0,
+      results: results,
+    };
+  }
+
+  async function fetchGenres() {
+    const { data } = await scraper.get(`${BASE_URL}/tag`);
+
+    const $ = load(data);
+    const genres = new Map<string, string>();
+    $('a[href*="/tag/"]').each((_i, el) => {
+      const id = $(el)
+        .attr('href')
+        ?.match(/\/tag\/([^/?#]+)/)?.[1];
+      const name = $(el).attr('title') || $(el).text().trim();
+      if (id && name && !genres.has(id)) genres.set(id, name);
+    });
+
+    return [...genres].map(([id, name]) => ({ id, name }));
+  }
+
   // Helper function to fetch anime info
   async function fetchAnimeInfo(id: string) {
     try {
@@ -194,19 +312,7 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       // Fix: Add /anime/ prefix to URL
       const infoUrl = `${BASE_URL}/anime/${cleanId}`;
 
-      const { data } = await axios.get(infoUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': BASE_URL,
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        timeout: 30000,
-      });
+      const { data } = await scraper.get(infoUrl);
 
       const $ = load(data);
 
@@ -277,18 +383,24 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         totalEpisodes: episodes.length,
       };
     } catch (err: any) {
-      console.error('Error fetching anime info from Anizone:', err.message);
-
-      // Enhanced error handling
       if (err.response?.status === 403 || err.message.includes('Cloudflare')) {
-        throw new Error('Access denied. The site may be blocking automated access.');
+        throw new UpstreamBlocked(
+          'Access denied. The site may be blocking automated access.',
+          { cause: err },
+        );
       } else if (err.message.includes('timeout') || err.code === 'ECONNABORTED') {
-        throw new Error('Request timeout. Anizone.to may be slow or unreachable.');
+        throw new UpstreamTimeout(
+          'Request timeout. Anizone.to may be slow or unreachable.',
+          { cause: err },
+        );
       } else if (err.response?.status === 404) {
-        throw new Error('Anime not found. It may not exist or be unavailable.');
+        throw new NotFound(
+          'Anime not found. It may not exist or be unavailable.',
+          { cause: err },
+        );
       }
 
-      throw new Error(`Failed to fetch anime info: ${err.message}`);
+      throw toApiError(err);
     }
   }
 
@@ -299,19 +411,7 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       // Fix: Construct URL as /anime/{id}/{episodeNumber}
       const episodeUrl = `${BASE_URL}/anime/${cleanEpisodeId}`;
 
-      const { data } = await axios.get(episodeUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': BASE_URL,
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        timeout: 30000,
-      });
+      const { data } = await scraper.get(episodeUrl);
 
       const $ = load(data);
       const sources: any[] = [];
@@ -367,33 +467,11 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         }
       });
 
-      // If we found an iframe but no direct sources, try to fetch from the iframe
+      // If we found an iframe but no direct sources, resolve its player
+      let embed: EmbedSources | null = null;
       if (sources.length === 0 && iframeSrc) {
-        try {
-          const iframeResponse = await axios.get(iframeSrc, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Referer': episodeUrl,
-            },
-          });
-
-          const iframeData = iframeResponse.data;
-
-          // Look for m3u8 URLs in iframe content
-          const m3u8Matches = iframeData.match(/https?:\/\/[^\s"']+\.m3u8[^\s"']*/g);
-          if (m3u8Matches) {
-            m3u8Matches.forEach((url: string) => {
-              const cleanUrl = url.replace(/[\\'")\]},;]+$/, '');
-              sources.push({
-                url: cleanUrl,
-                quality: 'auto',
-                isM3U8: true,
-              });
-            });
-          }
-        } catch (err) {
-          console.error('Error fetching iframe content:', err);
-        }
+        embed = await extractEmbed(iframeSrc, episodeUrl);
+        if (embed) sources.push(...embed.sources);
       }
 
       // Remove duplicates
@@ -412,27 +490,34 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
       }
 
       return {
-        headers: {
+        headers: embed?.headers ?? {
           Referer: 'https://seiryuu.vid-cdn.xyz',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'User-Agent': USER_AGENT,
         },
         sources: uniqueSources,
+        subtitles: embed?.subtitles ?? [],
         iframe: iframeSrc,
         download: uniqueSources.length > 0 ? uniqueSources[0].url : null,
       };
     } catch (err: any) {
-      console.error('Error fetching Anizone episode sources:', err.message);
-
-      // Enhanced error handling
       if (err.response?.status === 403 || err.message.includes('Cloudflare')) {
-        throw new Error('Access denied. The site may be blocking automated access.');
+        throw new UpstreamBlocked(
+          'Access denied. The site may be blocking automated access.',
+          { cause: err },
+        );
       } else if (err.message.includes('timeout') || err.code === 'ECONNABORTED') {
-        throw new Error('Request timeout. Anizone.to may be slow or unreachable.');
+        throw new UpstreamTimeout(
+          'Request timeout. Anizone.to may be slow or unreachable.',
+          { cause: err },
+        );
       } else if (err.response?.status === 404) {
-        throw new Error('Episode not found. It may not exist or be unavailable.');
+        throw new NotFound(
+          'Episode not found. It may not exist or be unavailable.',
+          { cause: err },
+        );
       }
 
-      throw new Error(`Failed to fetch episode sources: ${err.message}`);
+      throw toApiError(err);
     }
   }
 };
@@ -3,219 +3,203 @@ import { ANIME } from '@consumet/extensions';
 import { StreamingServers, SubOrSub } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  PageRequest,
+  SearchRequest,
+  category,
+  flag,
+  idSchema,
+  integer,
+  isoDate,
+  object,
+  page,
+  pageSchema,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
+
+type AdvancedSearchRequest = FastifyRequest<{
+  Querystring: {
+    page?: number;
+    type?: string;
+    status?: string;
+    rated?: string;
+    score?: number;
+    season?: string;
+    language?: string;
+    startDate?: string;
+    endDate?: string;
+    // comma separated
+    genres?: string;
+    sort?: string;
+  };
+}>;
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const hianime = new ANIME.Hianime();
+  const hianime = withProxyPool(new ANIME.Hianime());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the hianime provider: check out the provider's website @ ${hianime.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/info',
-        '/watch/:episodeId',
-        '/advanced-search',
-        '/top-airing',
-        '/most-popular',
-        '/most-favorite',
-        '/latest-completed',
-        '/recently-updated',
-        '/recently-added',
-        '/top-upcoming',
-        '/studio/:studio',
-        '/subbed-anime',
-        '/dubbed-anime',
-        '/movie',
-        '/tv',
-        '/ova',
-        '/ona',
-        '/special',
-        '/genres',
-        '/genre/:genre',
-        '/schedule',
-        '/spotlight',
-        '/search-suggestions/:query',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/hianime',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-    const page = (request.query as { page: number }).page;
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:search:${query}:${page}`,
-          async () => await hianime.search(query, page),
-          REDIS_TTL,
-        )
-        : await hianime.search(query, page);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `hianime:search:${query}:${page}`,
+        async () => await hianime.search(query, page),
+        cache.policy('hianime', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toAnimeInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:info:${id}`,
-          async () => await hianime.fetchAnimeInfo(id),
-          REDIS_TTL,
-        )
-        : await hianime.fetchAnimeInfo(id);
+      let res = await cache.fetch(
+        `hianime:info:${id}`,
+        async () => await hianime.fetchAnimeInfo(id),
+        cache.policy('hianime', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-      const server = (request.query as { server: StreamingServers }).server;
-      const category = (request.query as { category: SubOrSub }).category;
-
-      if (typeof episodeId === 'undefined')
-        return reply.status(400).send({ message: 'episodeId is required' });
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `hianime:watch:${episodeId}:${server}:${category}`,
-            async () => await hianime.fetchEpisodeSources(episodeId, server, category),
-            REDIS_TTL,
-          )
-          : await hianime.fetchEpisodeSources(episodeId, server, category);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    {
+      schema: {
+        params: object({ episodeId: text }, ['episodeId']),
+        querystring: object({ server, category, proxy: flag }),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { episodeId: string };
+        Querystring: { server?: StreamingServers; category?: SubOrSub; proxy?: boolean };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
+      const server = request.query.server;
+      const category = request.query.category;
+      const proxy = request.query.proxy;
+
+      let res = await cache.fetch(
+        `hianime:watch:${episodeId}:${server}:${category}`,
+        async () => await hianime.fetchEpisodeSources(episodeId, server, category),
+        cache.policy('hianime', 'watch'),
+      );
+
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
     },
   );
 
   fastify.get('/genres', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:genres`,
-          async () => await hianime.fetchGenres(),
-          REDIS_TTL,
-        )
-        : await hianime.fetchGenres();
+    let res = await cache.fetch(
+      `hianime:genres`,
+      async () => await hianime.fetchGenres(),
+      cache.policy('hianime', 'info'),
+    );
 
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
+    reply.status(200).send(res);
   });
 
-  fastify.get('/schedule', async (request: FastifyRequest, reply: FastifyReply) => {
-    const date = (request.query as { date: string }).date;
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:schedule:${date}`,
-          async () => await hianime.fetchSchedule(date),
-          REDIS_TTL,
-        )
-        : await hianime.fetchSchedule(date);
+  fastify.get(
+    '/schedule',
+    { schema: { querystring: object({ date: isoDate }) } },
+    async (
+      request: FastifyRequest<{ Querystring: { date?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const date = request.query.date;
+
+      let res = await cache.fetch(
+        `hianime:schedule:${date}`,
+        async () => await hianime.fetchSchedule(date),
+        cache.policy('hianime', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/spotlight', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:spotlight`,
-          async () => await hianime.fetchSpotlight(),
-          REDIS_TTL,
-        )
-        : await hianime.fetchSpotlight();
+  fastify.get(
+    '/spotlight',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `hianime:spotlight`,
+        async () => await hianime.fetchSpotlight(),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/search-suggestions/:query',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const query = (request.params as { query: string }).query;
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `hianime:suggestions:${query}`,
-            async () => await hianime.fetchSearchSuggestions(query),
-            REDIS_TTL,
-          )
-          : await hianime.fetchSearchSuggestions(query);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    { schema: { params: object({ query: text }, ['query']) } },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
+
+      let res = await cache.fetch(
+        `hianime:suggestions:${query}`,
+        async () => await hianime.fetchSearchSuggestions(query),
+        cache.policy('hianime', 'search'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
   fastify.get(
     '/advanced-search',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const queryParams = request.query as {
-        page?: number;
-        type?: string;
-        status?: string;
-        rated?: string;
-        score?: number;
-        season?: string;
-        language?: string;
-        startDate?: string;
-        endDate?: string;
-        sort?: string;
-        genres?: string;
-      };
+    {
+      schema: {
+        querystring: object({
+          page,
+          type: text,
+          status: text,
+          rated: text,
+          score: integer,
+          season: text,
+          language: text,
+          startDate: isoDate,
+          endDate: isoDate,
+          sort: text,
+          genres: text,
+        }),
+      },
+      config: { normalize: toResults },
+    },
+    async (request: AdvancedSearchRequest, reply: FastifyReply) => {
+      const queryParams = request.query;
 
       const {
         page = 1,
@@ -231,46 +215,28 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         genres,
       } = queryParams;
 
-      try {
-        // Explicitly typed to avoid implicit any errors
-        let parsedStartDate: { year: number; month: number; day: number } | undefined;
-        let parsedEndDate: { year: number; month: number; day: number } | undefined;
-
-        if (startDate) {
-          const [year, month, day] = startDate.split('-').map(Number);
-          parsedStartDate = { year, month, day };
-        }
-        if (endDate) {
-          const [year, month, day] = endDate.split('-').map(Number);
-          parsedEndDate = { year, month, day };
-        }
-
-        const genresArray = genres ? genres.split(',') : undefined;
-
-        // Create a unique key based on all parameters
-        const cacheKey = `hianime:advanced-search:${JSON.stringify(queryParams)}`;
-
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            cacheKey,
-            async () =>
-              await hianime.fetchAdvancedSearch(
-                page,
-                type,
-                status,
-                rated,
-                score,
-                season,
-                language,
-                parsedStartDate,
-                parsedEndDate,
-                sort,
-                genresArray,
-              ),
-            REDIS_TTL,
-          )
-          : await hianime.fetchAdvancedSearch(
+      // Explicitly typed to avoid implicit any errors
+      let parsedStartDate: { year: number; month: number; day: number } | undefined;
+      let parsedEndDate: { year: number; month: number; day: number } | undefined;
+
+      if (startDate) {
+        const [year, month, day] = startDate.split('-').map(Number);
+        parsedStartDate = { year, month, day };
+      }
+      if (endDate) {
+        const [year, month, day] = endDate.split('-').map(Number);
+        parsedEndDate = { year, month, day };
+      }
+
+      const genresArray = genres ? genres.split(',') : undefined;
+
+      // Create a unique key based on all parameters
+      const cacheKey = `hianime:advanced-search:${JSON.stringify(queryParams)}`;
+
+      let res = await cache.fetch(
+        cacheKey,
+        async () =>
+          await hianime.fetchAdvancedSearch(
             page,
             type,
             status,
@@ -282,360 +248,295 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
             parsedEndDate,
             sort,
             genresArray,
-          );
+          ),
+        cache.policy('hianime', 'search'),
+      );
 
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/top-airing', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/top-airing',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:top-airing:${page}`,
-          async () => await hianime.fetchTopAiring(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchTopAiring(page);
+      let res = await cache.fetch(
+        `hianime:top-airing:${page}`,
+        async () => await hianime.fetchTopAiring(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/most-popular', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/most-popular',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:most-popular:${page}`,
-          async () => await hianime.fetchMostPopular(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchMostPopular(page);
+      let res = await cache.fetch(
+        `hianime:most-popular:${page}`,
+        async () => await hianime.fetchMostPopular(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/most-favorite', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/most-favorite',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:most-favorite:${page}`,
-          async () => await hianime.fetchMostFavorite(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchMostFavorite(page);
+      let res = await cache.fetch(
+        `hianime:most-favorite:${page}`,
+        async () => await hianime.fetchMostFavorite(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/latest-completed',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const page = (request.query as { page: number }).page;
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `hianime:latest-completed:${page}`,
-            async () => await hianime.fetchLatestCompleted(page),
-            REDIS_TTL,
-          )
-          : await hianime.fetchLatestCompleted(page);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `hianime:latest-completed:${page}`,
+        async () => await hianime.fetchLatestCompleted(page),
+        cache.policy('hianime', 'schedule'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
   fastify.get(
     '/recently-updated',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const page = (request.query as { page: number }).page;
-
-      try {
-        let res = redis
-          ? await cache.fetch(
-            redis as Redis,
-            `hianime:recently-updated:${page}`,
-            async () => await hianime.fetchRecentlyUpdated(page),
-            REDIS_TTL,
-          )
-          : await hianime.fetchRecentlyUpdated(page);
-
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `hianime:recently-updated:${page}`,
+        async () => await hianime.fetchRecentlyUpdated(page),
+        cache.policy('hianime', 'schedule'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/recently-added', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/recently-added',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:recently-added:${page}`,
-          async () => await hianime.fetchRecentlyAdded(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchRecentlyAdded(page);
+      let res = await cache.fetch(
+        `hianime:recently-added:${page}`,
+        async () => await hianime.fetchRecentlyAdded(page),
+        cache.policy('hianime', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/top-upcoming', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/top-upcoming',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:top-upcoming:${page}`,
-          async () => await hianime.fetchTopUpcoming(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchTopUpcoming(page);
+      let res = await cache.fetch(
+        `hianime:top-upcoming:${page}`,
+        async () => await hianime.fetchTopUpcoming(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
-
-  fastify.get('/studio/:studio', async (request: FastifyRequest, reply: FastifyReply) => {
-    const studio = (request.params as { studio: string }).studio;
-    const page = (request.query as { page: number }).page;
+    },
+  );
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:studio:${studio}:${page}`,
-          async () => await hianime.fetchStudio(studio, page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchStudio(studio, page);
+  fastify.get(
+    '/studio/:studio',
+    {
+      schema: {
+        params: object({ studio: text }, ['studio']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { studio: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const studio = request.params.studio;
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `hianime:studio:${studio}:${page}`,
+        async () => await hianime.fetchStudio(studio, page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/subbed-anime', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/subbed-anime',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:subbed:${page}`,
-          async () => await hianime.fetchSubbedAnime(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchSubbedAnime(page);
+      let res = await cache.fetch(
+        `hianime:subbed:${page}`,
+        async () => await hianime.fetchSubbedAnime(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/dubbed-anime', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/dubbed-anime',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:dubbed:${page}`,
-          async () => await hianime.fetchDubbedAnime(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchDubbedAnime(page);
+      let res = await cache.fetch(
+        `hianime:dubbed:${page}`,
+        async () => await hianime.fetchDubbedAnime(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/movie', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/movie',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:movie:${page}`,
-          async () => await hianime.fetchMovie(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchMovie(page);
+      let res = await cache.fetch(
+        `hianime:movie:${page}`,
+        async () => await hianime.fetchMovie(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/tv', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/tv',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:tv:${page}`,
-          async () => await hianime.fetchTV(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchTV(page);
+      let res = await cache.fetch(
+        `hianime:tv:${page}`,
+        async () => await hianime.fetchTV(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/ova', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/ova',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:ova:${page}`,
-          async () => await hianime.fetchOVA(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchOVA(page);
+      let res = await cache.fetch(
+        `hianime:ova:${page}`,
+        async () => await hianime.fetchOVA(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/ona', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/ona',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:ona:${page}`,
-          async () => await hianime.fetchONA(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchONA(page);
+      let res = await cache.fetch(
+        `hianime:ona:${page}`,
+        async () => await hianime.fetchONA(page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/special', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:special:${page}`,
-          async () => await hianime.fetchSpecial(page),
-          REDIS_TTL,
-        )
-        : await hianime.fetchSpecial(page);
-
-
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+  fastify.get(
+    '/special',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
 
-  fastify.get('/genre/:genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genre = (request.params as { genre: string }).genre;
-    const page = (request.query as { page: number }).page;
+      let res = await cache.fetch(
+        `hianime:special:${page}`,
+        async () => await hianime.fetchSpecial(page),
+        cache.policy('hianime', 'trending'),
+      );
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-          redis as Redis,
-          `hianime:genre:${genre}:${page}`,
-          async () => await hianime.genreSearch(genre, page),
-          REDIS_TTL,
-        )
-        : await hianime.genreSearch(genre, page);
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page;
+
+      let res = await cache.fetch(
+        `hianime:genre:${genre}:${page}`,
+        async () => await hianime.genreSearch(genre, page),
+        cache.policy('hianime', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
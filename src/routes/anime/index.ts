@@ -10,6 +10,9 @@ import kickassanime from './kickassanime';
 import animeyy from './animeyy';
 import allmanga from './allmanga';
 import anizone from './anizone';
+import search from './search';
+import { NotFound } from '../../utils/errors';
+import { object, page, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(animepahe, { prefix: '/animepahe' });
@@ -21,41 +24,47 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(animeyy, { prefix: '/animeyy' });
   await fastify.register(allmanga, { prefix: '/allmanga' });
   await fastify.register(anizone, { prefix: '/anizone' });
+  await fastify.register(search, { prefix: '/search' });
 
   fastify.get('/', async (request: any, reply: any) => {
     reply.status(200).send('Welcome to Consumet Anime 🗾');
   });
 
-  fastify.get('/:animeProvider', async (request: FastifyRequest, reply: FastifyReply) => {
-    const queries: { animeProvider: string; page: number } = {
-      animeProvider: '',
-      page: 1,
-    };
+  fastify.get(
+    '/:animeProvider',
+    {
+      schema: {
+        params: object({ animeProvider: text }, ['animeProvider']),
+        querystring: object({ page }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { animeProvider: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const queries: { animeProvider: string; page: number } = {
+        animeProvider: '',
+        page: 1,
+      };
 
-    queries.animeProvider = decodeURIComponent(
-      (request.params as { animeProvider: string; page: number }).animeProvider,
-    );
+      queries.animeProvider = decodeURIComponent(request.params.animeProvider);
 
-    queries.page = (request.query as { animeProvider: string; page: number }).page;
+      queries.page = request.query.page ?? 1;
 
-    if (queries.page! < 1) queries.page = 1;
+      const provider = PROVIDERS_LIST.ANIME.find(
+        (provider: any) => provider.toString.name === queries.animeProvider,
+      );
 
-    const provider = PROVIDERS_LIST.ANIME.find(
-      (provider: any) => provider.toString.name === queries.animeProvider,
-    );
-
-    try {
       if (provider) {
         reply.redirect(`/anime/${provider.toString.name}`);
       } else {
-        reply
-          .status(404)
-          .send({ message: 'Provider not found, please check the providers list.' });
+        throw new NotFound('Provider not found, please check the providers list.');
       }
-    } catch (err) {
-      reply.status(500).send('Something went wrong. Please try again later.');
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -0,0 +1,69 @@
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+
+import {
+  ANIME_SEARCH_PROVIDERS,
+  AnimeSearchProvider,
+  dedupeResults,
+  searchProviders,
+} from '../../utils/aggregator';
+import { InvalidInput } from '../../utils/errors';
+import { toResults } from '../../utils/normalize';
+import { integer, object, page, text } from '../../utils/schemas';
+
+const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
+  fastify.get(
+    '/',
+    {
+      schema: {
+        querystring: object({ q: text, providers: text, page, timeout: integer }, ['q']),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { q: string; providers?: string; page?: number; timeout?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const { q, providers, page, timeout } = request.query;
+
+      if (q.trim() === '') throw new InvalidInput('q is required');
+
+      const selected = providers
+        ? providers.split(',').map((provider) => provider.trim().toLowerCase())
+        : [...ANIME_SEARCH_PROVIDERS];
+
+      const unknown = selected.filter(
+        (provider) => !ANIME_SEARCH_PROVIDERS.includes(provider as AnimeSearchProvider),
+      );
+      if (unknown.length > 0)
+        throw new InvalidInput(
+          `Unknown providers: ${unknown.join(', ')}. Available providers: ${ANIME_SEARCH_PROVIDERS.join(', ')}`,
+        );
+
+      const { results, failed } = await searchProviders(
+        fastify,
+        q.trim(),
+        selected as AnimeSearchProvider[],
+        {
+          page: page ?? 1,
+          // clamp the per-provider timeout between 1 and 30 seconds
+          timeout: Math.min(Math.max(timeout ?? 8000, 1000), 30000),
+        },
+      );
+
+      reply.status(200).send({
+        query: q.trim(),
+        results: dedupeResults(results),
+        providers: {
+          succeeded: selected.filter(
+            (provider) => !failed.some((f) => f.provider === provider),
+          ),
+          failed,
+        },
+      });
+    },
+  );
+};
+
+export default routes;
@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 
 import getcomics from './getComics';
+import { object, page, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(getcomics, { prefix: '/getcomics' });
@@ -9,10 +10,17 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
     reply.status(200).send('Welcome to Consumet Comics 🦸‍♂️');
   });
 
-  fastify.get('/s', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { comicTitle, page } = request.query as { comicTitle: string; page: number };
-    reply.status(300).redirect(`getcomics/s?comicTitle=${comicTitle}&page=${page}`);
-  });
+  fastify.get(
+    '/s',
+    { schema: { querystring: object({ comicTitle: text, page }) } },
+    async (
+      request: FastifyRequest<{ Querystring: { comicTitle?: string; page?: number } }>,
+      reply: FastifyReply,
+    ) => {
+      const { comicTitle, page } = request.query;
+      reply.status(300).redirect(`getcomics/s?comicTitle=${comicTitle}&page=${page}`);
+    },
+  );
 };
 
 export default routes;
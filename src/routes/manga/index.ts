@@ -4,6 +4,8 @@ import mangapill from './mangapill';
 import managreader from './managreader';
 import mangadex from './mangadex';
 import mangahere from './mangahere';
+import { NotFound } from '../../utils/errors';
+import { object, page, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(mangadex, { prefix: '/mangadex' });
@@ -15,36 +17,41 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
     reply.status(200).send('Welcome to Consumet Manga');
   });
 
-  fastify.get('/:mangaProvider', async (request: FastifyRequest, reply: FastifyReply) => {
-    const queries: { mangaProvider: string; page: number } = {
-      mangaProvider: '',
-      page: 1,
-    };
+  fastify.get(
+    '/:mangaProvider',
+    {
+      schema: {
+        params: object({ mangaProvider: text }, ['mangaProvider']),
+        querystring: object({ page }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { mangaProvider: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const queries: { mangaProvider: string; page: number } = {
+        mangaProvider: '',
+        page: 1,
+      };
+
+      queries.mangaProvider = decodeURIComponent(request.params.mangaProvider);
+
+      queries.page = request.query.page ?? 1;
+
+      const provider = PROVIDERS_LIST.MANGA.find(
+        (provider: any) => provider.toString.name === queries.mangaProvider,
+      );
 
-    queries.mangaProvider = decodeURIComponent(
-      (request.params as { mangaProvider: string; page: number }).mangaProvider,
-    );
-
-    queries.page = (request.query as { mangaProvider: string; page: number }).page;
-
-    if (queries.page! < 1) queries.page = 1;
-
-    const provider = PROVIDERS_LIST.MANGA.find(
-      (provider: any) => provider.toString.name === queries.mangaProvider,
-    );
-
-    try {
       if (provider) {
         reply.redirect(`/manga/${provider.toString.name}`);
       } else {
-        reply
-          .status(404)
-          .send({ message: 'Page not found, please check the provider list.' });
+        throw new NotFound('Page not found, please check the provider list.');
       }
-    } catch (err) {
-      reply.status(500).send('Something went wrong. Please try again later.');
-    }
-  });
+    },
+  );
 };
 
 export default routes;
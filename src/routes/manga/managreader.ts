@@ -2,88 +2,78 @@ import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from '
 import { MANGA } from '@consumet/extensions';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMangaInfo, toResults } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import { IdRequest, idSchema, object, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const managreader = new MANGA.MangaReader();
+  const managreader = withProxyPool(new MANGA.MangaReader());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the Mangapill provider: check out the provider's website @ ${managreader.toString.baseUrl}`,
-      routes: ['/:query', '/info', '/read'],
-      documentation: 'https://docs.consumet.org/#tag/mangapill',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
+  fastify.get(
+    '/:query',
+    {
+      schema: { params: object({ query: text }, ['query']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangareader:search:${query}`,
-            async () => await managreader.search(query),
-            REDIS_TTL,
-          )
-        : await managreader.search(query);
+      let res = await cache.fetch(
+        `mangareader:search:${query}`,
+        async () => await managreader.search(query),
+        cache.policy('mangareader', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Contact developer for help.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMangaInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangareader:info:${id}`,
-            async () => await managreader.fetchMangaInfo(id),
-            REDIS_TTL,
-          )
-        : await managreader.fetchMangaInfo(id);
+      let res = await cache.fetch(
+        `mangareader:info:${id}`,
+        async () => await managreader.fetchMangaInfo(id),
+        cache.policy('mangareader', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 
-  fastify.get('/read', async (request: FastifyRequest, reply: FastifyReply) => {
-    const chapterId = (request.query as { chapterId: string }).chapterId;
+  fastify.get(
+    '/read',
+    { schema: { querystring: object({ chapterId: text }, ['chapterId']) } },
+    async (
+      request: FastifyRequest<{ Querystring: { chapterId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const chapterId = request.query.chapterId;
 
-    if (typeof chapterId === 'undefined')
-      return reply.status(400).send({ message: 'chapterId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangareader:read:${chapterId}`,
-            async () => await managreader.fetchChapterPages(chapterId),
-            REDIS_TTL,
-          )
-        : await managreader.fetchChapterPages(chapterId);
+      let res = await cache.fetch(
+        `mangareader:read:${chapterId}`,
+        async () => await managreader.fetchChapterPages(chapterId),
+        cache.policy('mangareader', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -2,87 +2,77 @@ import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from '
 import { MANGA } from '@consumet/extensions';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMangaInfo, toResults } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import { SearchRequest, object, searchSchema, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const mangadex = new MANGA.MangaDex();
+  const mangadex = withProxyPool(new MANGA.MangaDex());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the mangadex provider: check out the provider's website @ ${mangadex.toString.baseUrl}`,
-      routes: ['/:query', '/info/:id', '/read/:chapterId'],
-      documentation: 'https://docs.consumet.org/#tag/mangadex',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
   // --- SEARCH ---
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { query } = request.params as { query: string };
-    const { page } = request.query as { page?: number };
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const { query } = request.params;
+      const { page } = request.query;
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangadex:search:${query}:${page ?? 1}`,
-            () => mangadex.search(query, page),
-            REDIS_TTL,
-          )
-        : await mangadex.search(query, page);
+      const res = await cache.fetch(
+        `mangadex:search:${query}:${page ?? 1}`,
+        () => mangadex.search(query, page),
+        cache.policy('mangadex', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 
   // --- INFO ---
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = decodeURIComponent((request.params as { id: string }).id);
+  fastify.get(
+    '/info/:id',
+    {
+      schema: { params: object({ id: text }, ['id']) },
+      config: { normalize: toMangaInfo },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const id = decodeURIComponent(request.params.id);
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangadex:info:${id}`,
-            () => mangadex.fetchMangaInfo(id),
-            REDIS_TTL,
-          )
-        : await mangadex.fetchMangaInfo(id);
+      const res = await cache.fetch(
+        `mangadex:info:${id}`,
+        () => mangadex.fetchMangaInfo(id),
+        cache.policy('mangadex', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 
   // --- READ CHAPTER ---
   fastify.get(
     '/read/:chapterId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const { chapterId } = request.params as { chapterId: string };
+    { schema: { params: object({ chapterId: text }, ['chapterId']) } },
+    async (
+      request: FastifyRequest<{ Params: { chapterId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const { chapterId } = request.params;
 
-      try {
-        const res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `mangadex:read:${chapterId}`,
-              () => mangadex.fetchChapterPages(chapterId),
-              REDIS_TTL,
-            )
-          : await mangadex.fetchChapterPages(chapterId);
+      const res = await cache.fetch(
+        `mangadex:read:${chapterId}`,
+        () => mangadex.fetchChapterPages(chapterId),
+        cache.policy('mangadex', 'watch'),
+      );
 
-        reply.status(200).send(res);
-      } catch (err) {
-        reply.status(500).send({
-          message: 'Something went wrong. Please try again later.',
-        });
-      }
+      reply.status(200).send(res);
     },
   );
 };
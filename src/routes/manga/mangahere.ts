@@ -2,87 +2,80 @@ import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from '
 import { MANGA } from '@consumet/extensions';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMangaInfo, toResults } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  SearchRequest,
+  idSchema,
+  object,
+  searchSchema,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const mangahere = new MANGA.MangaHere();
+  const mangahere = withProxyPool(new MANGA.MangaHere());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the MangaHere provider: check out the provider's website @ ${mangahere.toString.baseUrl}`,
-      routes: ['/:query', '/info', '/read'],
-      documentation: 'https://docs.consumet.org/#tag/mangahere',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { query } = request.params as { query: string };
-    const { page } = request.query as { page?: number };
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const { query } = request.params;
+      const { page } = request.query;
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangahere:search:${query}:${page ?? 1}`,
-            () => mangahere.search(query, page),
-            REDIS_TTL,
-          )
-        : await mangahere.search(query, page);
+      const res = await cache.fetch(
+        `mangahere:search:${query}:${page ?? 1}`,
+        () => mangahere.search(query, page),
+        cache.policy('mangahere', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (!id) return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMangaInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangahere:info:${id}`,
-            () => mangahere.fetchMangaInfo(id),
-            REDIS_TTL,
-          )
-        : await mangahere.fetchMangaInfo(id);
+      const res = await cache.fetch(
+        `mangahere:info:${id}`,
+        () => mangahere.fetchMangaInfo(id),
+        cache.policy('mangahere', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 
-  fastify.get('/read', async (request: FastifyRequest, reply: FastifyReply) => {
-    const chapterId = (request.query as { chapterId: string }).chapterId;
+  fastify.get(
+    '/read',
+    { schema: { querystring: object({ chapterId: text }, ['chapterId']) } },
+    async (
+      request: FastifyRequest<{ Querystring: { chapterId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const chapterId = request.query.chapterId;
 
-    if (!chapterId) return reply.status(400).send({ message: 'chapterId is required' });
-
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangahere:read:${chapterId}`,
-            () => mangahere.fetchChapterPages(chapterId),
-            REDIS_TTL,
-          )
-        : await mangahere.fetchChapterPages(chapterId);
+      const res = await cache.fetch(
+        `mangahere:read:${chapterId}`,
+        () => mangahere.fetchChapterPages(chapterId),
+        cache.policy('mangahere', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -2,86 +2,78 @@ import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from '
 import { MANGA } from '@consumet/extensions';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMangaInfo, toResults } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import { IdRequest, idSchema, object, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const mangapill = new MANGA.MangaPill();
+  const mangapill = withProxyPool(new MANGA.MangaPill());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the Mangapill provider: check out the provider's website @ ${mangapill.toString.baseUrl}`,
-      routes: ['/:query', '/info', '/read'],
-      documentation: 'https://docs.consumet.org/#tag/mangapill',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { query } = request.params as { query: string };
+  fastify.get(
+    '/:query',
+    {
+      schema: { params: object({ query: text }, ['query']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const { query } = request.params;
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangapill:search:${query}`,
-            () => mangapill.search(query),
-            REDIS_TTL,
-          )
-        : await mangapill.search(query);
+      const res = await cache.fetch(
+        `mangapill:search:${query}`,
+        () => mangapill.search(query),
+        cache.policy('mangapill', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (!id) return reply.status(400).send({ message: 'id is required' });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMangaInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangapill:info:${id}`,
-            () => mangapill.fetchMangaInfo(id),
-            REDIS_TTL,
-          )
-        : await mangapill.fetchMangaInfo(id);
+      const res = await cache.fetch(
+        `mangapill:info:${id}`,
+        () => mangapill.fetchMangaInfo(id),
+        cache.policy('mangapill', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 
-  fastify.get('/read', async (request: FastifyRequest, reply: FastifyReply) => {
-    const chapterId = (request.query as { chapterId: string }).chapterId;
+  fastify.get(
+    '/read',
+    { schema: { querystring: object({ chapterId: text }, ['chapterId']) } },
+    async (
+      request: FastifyRequest<{ Querystring: { chapterId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const chapterId = request.query.chapterId;
 
-    if (!chapterId) return reply.status(400).send({ message: 'chapterId is required' });
-
-    try {
-      const res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `mangapill:read:${chapterId}`,
-            () => mangapill.fetchChapterPages(chapterId),
-            REDIS_TTL,
-          )
-        : await mangapill.fetchChapterPages(chapterId);
+      const res = await cache.fetch(
+        `mangapill:read:${chapterId}`,
+        () => mangapill.fetchChapterPages(chapterId),
+        cache.policy('mangapill', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch {
-      reply.status(500).send({
-        message: 'Something went wrong. Please try again later.',
-      });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -1,109 +1,123 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
-import { META } from '@consumet/extensions';
-import { PROVIDERS_LIST } from '@consumet/extensions';
+import { META, PROVIDERS_LIST } from '@consumet/extensions';
+
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toChapters, toMangaInfo, toResults } from '../../utils/normalize';
+import { providerPool } from '../../utils/providerpool';
+import { withProxyPool } from '../../utils/proxypool';
+import { NotFound, toApiError } from '../../utils/errors';
+import { object, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  let anilist = new META.Anilist.Manga();
+  const anilistFor = providerPool(PROVIDERS_LIST.MANGA, (provider) =>
+    withProxyPool(new META.Anilist.Manga(provider && withProxyPool(provider))),
+  );
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
-      intro: `Welcome to the anilist manga provider: check out the provider's website @ ${anilist.provider.toString.baseUrl}`,
-      routes: ['/:query', '/info', '/read'],
-      documentation: 'https://docs.consumet.org/#tag/anilist',
+      intro: `Welcome to the anilist manga provider: check out the provider's website @ ${anilistFor().provider.toString.baseUrl}`,
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-
-    const res = await anilist.search(query);
-
-    reply.status(200).send(res);
-  });
-
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-    const provider = (request.query as { provider: string }).provider;
+  fastify.get(
+    '/:query',
+    {
+      schema: { params: object({ query: text }, ['query']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Params: { query: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
 
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.MANGA.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-      anilist = new META.Anilist.Manga(possibleProvider);
-    }
-
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
-
-    try {
-      const res = await anilist
-        .fetchMangaInfo(id)
-        .catch((err) => reply.status(404).send({ message: err }));
+      const res = await anilistFor().search(query);
 
       reply.status(200).send(res);
-      anilist = new META.Anilist.Manga();
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
-
-  fastify.get('/read', async (request: FastifyRequest, reply: FastifyReply) => {
-    const chapterId = (request.query as { chapterId: string }).chapterId;
-    const provider = (request.query as { provider: string }).provider;
+    },
+  );
+
+  fastify.get(
+    '/info/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({ provider: text }),
+      },
+      config: { normalize: toMangaInfo },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { provider?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const provider = request.query.provider;
+
+      const anilist = anilistFor(provider);
+
+      const res = await anilist.fetchMangaInfo(id).catch((err: Error) => {
+        throw toApiError(err, NotFound);
+      });
 
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.MANGA.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-      anilist = new META.Anilist.Manga(possibleProvider);
-    }
-
-    if (typeof chapterId === 'undefined')
-      return reply.status(400).send({ message: 'chapterId is required' });
-
-    try {
-      const res = await anilist
-        .fetchChapterPages(chapterId)
-        .catch((err: Error) => reply.status(404).send({ message: err.message }));
-
-      anilist = new META.Anilist.Manga();
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
-
-  fastify.get('/chapters/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-    const provider = (request.query as { provider: string }).provider;
+    },
+  );
+
+  fastify.get(
+    '/read',
+    {
+      schema: { querystring: object({ chapterId: text, provider: text }, ['chapterId']) },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { chapterId: string; provider?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const chapterId = request.query.chapterId;
+      const provider = request.query.provider;
+
+      const anilist = anilistFor(provider);
+
+      const res = await anilist.fetchChapterPages(chapterId).catch((err: Error) => {
+        throw toApiError(err, NotFound);
+      });
 
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.MANGA.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-      anilist = new META.Anilist.Manga(possibleProvider);
-    }
-
-    if (typeof id === 'undefined')
-      return reply.status(400).send({ message: 'id is required' });
-
-    try {
-      const res = await anilist
-        .fetchChaptersList(id)
-        .catch((err: Error) => reply.status(404).send({ message: err.message }));
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/chapters/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({ provider: text }),
+      },
+      config: { normalize: toChapters },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { provider?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const provider = request.query.provider;
+
+      const anilist = anilistFor(provider);
+
+      const res = await anilist.fetchChaptersList(id).catch((err: Error) => {
+        throw toApiError(err, NotFound);
+      });
 
-      anilist = new META.Anilist.Manga();
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -1,71 +1,138 @@
-import { Redis } from 'ioredis';
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
-import { META } from '@consumet/extensions';
+import { PROVIDERS_LIST } from '@consumet/extensions';
 import { Genres, SubOrSub } from '@consumet/extensions/dist/models';
 import Anilist from '@consumet/extensions/dist/providers/meta/anilist';
 import { StreamingServers } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis } from '../../main';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toEpisodes, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { providerPool } from '../../utils/providerpool';
+import { fetchAnilistIdByMalId } from '../../utils/mappings';
+import { withProxyPool } from '../../utils/proxypool';
 import Hianime from '@consumet/extensions/dist/providers/anime/hianime';
 import Providers from '../../utils/providers';
+import { InvalidInput, NotFound, Unauthorized, toApiError } from '../../utils/errors';
+import {
+  flag,
+  integer,
+  numericId,
+  object,
+  oneOf,
+  page,
+  parseJsonList,
+  perPage,
+  positive,
+  server,
+  text,
+} from '../../utils/schemas';
+
+const SEASONS = ['WINTER', 'SPRING', 'SUMMER', 'FALL'];
+
+// `genres` is a JSON list, e.g. `["Action","Comedy"]`
+const parseGenres = (value: string) => {
+  const genres = parseJsonList(value, 'genres');
+  for (const genre of genres)
+    if (!Object.values(Genres).includes(genre as Genres))
+      throw new InvalidInput(`${genre} is not a valid genre`);
+
+  return genres;
+};
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro:
         "Welcome to the anilist provider: check out the provider's website @ https://anilist.co/",
-      routes: ['/:query', '/info/:id', '/watch/:episodeId'],
-      documentation: 'https://docs.consumet.org/#tag/anilist',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const anilist = generateAnilistMeta();
+  fastify.get(
+    '/:query',
+    {
+      schema: {
+        params: object({ query: text }, ['query']),
+        querystring: object({ page, perPage }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { query: string };
+        Querystring: { page?: number; perPage?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const anilist = anilistFor();
 
-    const query = (request.params as { query: string }).query;
+      const query = request.params.query;
 
-    const page = (request.query as { page: number }).page;
-    const perPage = (request.query as { perPage: number }).perPage;
+      const page = request.query.page;
+      const perPage = request.query.perPage;
 
-    const res = await anilist.search(query, page, perPage);
+      const res = await anilist.search(query, page, perPage);
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
   fastify.get(
     '/advanced-search',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const query = (request.query as { query: string }).query;
-      const page = (request.query as { page: number }).page;
-      const perPage = (request.query as { perPage: number }).perPage;
-      const type = (request.query as { type: string }).type;
-      let genres = (request.query as { genres: string | string[] }).genres;
-      const id = (request.query as { id: string }).id;
-      const format = (request.query as { format: string }).format;
-      let sort = (request.query as { sort: string | string[] }).sort;
-      const status = (request.query as { status: string }).status;
-      const year = (request.query as { year: number }).year;
-      const season = (request.query as { season: string }).season;
-      const countryOfOrigin = (request.query as {countryOfOrigin: string}).countryOfOrigin
-
-      const anilist = generateAnilistMeta();
-
-      if (genres) {
-        JSON.parse(genres as string).forEach((genre: string) => {
-          if (!Object.values(Genres).includes(genre as Genres)) {
-            return reply.status(400).send({ message: `${genre} is not a valid genre` });
-          }
-        });
-
-        genres = JSON.parse(genres as string);
-      }
-
-      if (sort) sort = JSON.parse(sort as string);
-
-      if (season)
-        if (!['WINTER', 'SPRING', 'SUMMER', 'FALL'].includes(season))
-          return reply.status(400).send({ message: `${season} is not a valid season` });
+    {
+      schema: {
+        querystring: object({
+          query: text,
+          page,
+          perPage,
+          type: text,
+          genres: text,
+          id: text,
+          format: text,
+          sort: text,
+          status: text,
+          year: integer,
+          season: oneOf(SEASONS),
+          countryOfOrigin: text,
+        }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: {
+          query?: string;
+          page?: number;
+          perPage?: number;
+          type?: string;
+          genres?: string;
+          id?: string;
+          format?: string;
+          sort?: string;
+          status?: string;
+          year?: number;
+          season?: string;
+          countryOfOrigin?: string;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.query.query;
+      const page = request.query.page;
+      const perPage = request.query.perPage;
+      const type = request.query.type;
+      const genres = request.query.genres;
+      const id = request.query.id;
+      const format = request.query.format;
+      const sort = request.query.sort;
+      const status = request.query.status;
+      const year = request.query.year;
+      const season = request.query.season;
+      const countryOfOrigin = request.query.countryOfOrigin;
+
+      const anilist = anilistFor();
 
       const res = await anilist.advancedSearch(
         query,
@@ -73,69 +140,106 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         page,
         perPage,
         format,
-        sort as string[],
-        genres as string[],
+        sort ? parseJsonList(sort, 'sort') : undefined,
+        genres ? parseGenres(genres) : undefined,
         id,
         year,
         status,
         season,
-        countryOfOrigin
+        countryOfOrigin,
       );
 
       reply.status(200).send(res);
     },
   );
 
-  fastify.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    const perPage = (request.query as { perPage: number }).perPage;
-
-    const anilist = generateAnilistMeta();
-
-    redis
-      ? reply
-          .status(200)
-          .send(
-            await cache.fetch(
-              redis as Redis,
-              `anilist:trending;${page};${perPage}`,
-              async () => await anilist.fetchTrendingAnime(page, perPage),
-              60 * 60,
-            ),
-          )
-      : reply.status(200).send(await anilist.fetchTrendingAnime(page, perPage));
-  });
-
-  fastify.get('/popular', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    const perPage = (request.query as { perPage: number }).perPage;
-
-    const anilist = generateAnilistMeta();
+  fastify.get(
+    '/trending',
+    {
+      schema: { querystring: object({ page, perPage }) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { page?: number; perPage?: number } }>,
+      reply: FastifyReply,
+    ) => {
+      const page = request.query.page;
+      const perPage = request.query.perPage;
+
+      const anilist = anilistFor();
+
+      reply
+        .status(200)
+        .send(
+          await cache.fetch(
+            `anilist:trending;${page};${perPage}`,
+            async () => await anilist.fetchTrendingAnime(page, perPage),
+            cache.policy('anilist', 'trending'),
+          ),
+        );
+    },
+  );
 
-    redis
-      ? reply
-          .status(200)
-          .send(
-            await cache.fetch(
-              redis as Redis,
-              `anilist:popular;${page};${perPage}`,
-              async () => await anilist.fetchPopularAnime(page, perPage),
-              60 * 60,
-            ),
-          )
-      : reply.status(200).send(await anilist.fetchPopularAnime(page, perPage));
-  });
+  fastify.get(
+    '/popular',
+    {
+      schema: { querystring: object({ page, perPage }) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { page?: number; perPage?: number } }>,
+      reply: FastifyReply,
+    ) => {
+      const page = request.query.page;
+      const perPage = request.query.perPage;
+
+      const anilist = anilistFor();
+
+      reply
+        .status(200)
+        .send(
+          await cache.fetch(
+            `anilist:popular;${page};${perPage}`,
+            async () => await anilist.fetchPopularAnime(page, perPage),
+            cache.policy('anilist', 'trending'),
+          ),
+        );
+    },
+  );
 
   fastify.get(
     '/airing-schedule',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const page = (request.query as { page: number }).page;
-      const perPage = (request.query as { perPage: number }).perPage;
-      const weekStart = (request.query as { weekStart: number | string }).weekStart;
-      const weekEnd = (request.query as { weekEnd: number | string }).weekEnd;
-      const notYetAired = (request.query as { notYetAired: boolean }).notYetAired;
-
-      const anilist = generateAnilistMeta();
+    {
+      schema: {
+        querystring: object({
+          page,
+          perPage,
+          weekStart: integer,
+          weekEnd: integer,
+          notYetAired: flag,
+        }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: {
+          page?: number;
+          perPage?: number;
+          weekStart?: number;
+          weekEnd?: number;
+          notYetAired?: boolean;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const page = request.query.page;
+      const perPage = request.query.perPage;
+      const weekStart = request.query.weekStart;
+      const weekEnd = request.query.weekEnd;
+      const notYetAired = request.query.notYetAired;
+
+      const anilist = anilistFor();
       const _weekStart = Math.ceil(Date.now() / 1000);
 
       const res = await anilist.fetchAiringSchedule(
@@ -150,271 +254,503 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
     },
   );
 
-  fastify.get('/genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genres = (request.query as { genres: string }).genres;
-    const page = (request.query as { page: number }).page;
-    const perPage = (request.query as { perPage: number }).perPage;
-
-    const anilist = generateAnilistMeta();
-
-    if (typeof genres === 'undefined')
-      return reply.status(400).send({ message: 'genres is required' });
+  fastify.get(
+    '/genre',
+    {
+      schema: { querystring: object({ genres: text, page, perPage }, ['genres']) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { genres: string; page?: number; perPage?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genres = request.query.genres;
+      const page = request.query.page;
+      const perPage = request.query.perPage;
 
-    JSON.parse(genres).forEach((genre: string) => {
-      if (!Object.values(Genres).includes(genre as Genres)) {
-        return reply.status(400).send({ message: `${genre} is not a valid genre` });
-      }
-    });
+      const anilist = anilistFor();
 
-    const res = await anilist.fetchAnimeGenres(JSON.parse(genres), page, perPage);
+      const res = await anilist.fetchAnimeGenres(parseGenres(genres), page, perPage);
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
   (fastify.get(
     '/recent-episodes',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const provider = (request.query as { provider:  'Hianime' }).provider;
-      const page = (request.query as { page: number }).page;
-      const perPage = (request.query as { perPage: number }).perPage;
-
-      const anilist = generateAnilistMeta(provider);
+    {
+      schema: { querystring: object({ provider: text, page, perPage }) },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { provider?: 'Hianime'; page?: number; perPage?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const provider = request.query.provider;
+      const page = request.query.page;
+      const perPage = request.query.perPage;
+
+      const anilist = anilistFor();
 
       const res = await anilist.fetchRecentEpisodes(provider, page, perPage);
 
       reply.status(200).send(res);
     },
   ),
-    fastify.get('/random-anime', async (request: FastifyRequest, reply: FastifyReply) => {
-      const anilist = generateAnilistMeta();
-
-      const res = await anilist.fetchRandomAnime().catch((err) => {
-        return reply.status(404).send({ message: 'Anime not found' });
-      });
-      reply.status(200).send(res);
-    }));
-
-  fastify.get('/servers/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-    const provider = (request.query as { provider?: string }).provider;
-
-    let anilist = generateAnilistMeta(provider);
-
-    const res = await anilist.fetchEpisodeServers(id);
+    fastify.get(
+      '/random-anime',
+      { config: { normalize: toAnimeInfo } },
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        const anilist = anilistFor();
+
+        const res = await anilist.fetchRandomAnime().catch((err) => {
+          throw new NotFound('Anime not found');
+        });
+        reply.status(200).send(res);
+      },
+    ));
 
-    anilist = new META.Anilist();
-    reply.status(200).send(res);
-  });
+  fastify.get(
+    '/servers/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({ provider: text }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { provider?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
 
-  fastify.get('/episodes/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const id = (request.params as { id: string }).id;
-    const provider = (request.query as { provider?: string }).provider;
-    let fetchFiller = (request.query as { fetchFiller?: string | boolean }).fetchFiller;
-    let dub = (request.query as { dub?: string | boolean }).dub;
-    const locale = (request.query as { locale?: string }).locale;
+      const anilist = anilistFor();
 
-    let anilist = generateAnilistMeta(provider);
+      const res = await anilist.fetchEpisodeServers(id);
 
-    if (dub === 'true' || dub === '1') dub = true;
-    else dub = false;
+      reply.status(200).send(res);
+    },
+  );
 
-    if (fetchFiller === 'true' || fetchFiller === '1') fetchFiller = true;
-    else fetchFiller = false;
+  fastify.get(
+    '/episodes/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({
+          provider: text,
+          fetchFiller: flag,
+          dub: flag,
+          locale: text,
+        }),
+      },
+      config: { normalize: toEpisodes },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: {
+          provider?: string;
+          fetchFiller?: boolean;
+          dub?: boolean;
+          locale?: string;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const fetchFiller = request.query.fetchFiller ?? false;
+      const dub = request.query.dub ?? false;
+      const locale = request.query.locale;
+
+      const anilist = anilistFor();
 
-    try {
-      redis
-        ? reply
-            .status(200)
-            .send(
-              await cache.fetch(
-                redis,
-                `anilist:episodes;${id};${dub};${fetchFiller};${anilist.provider.name.toLowerCase()}`,
-                async () =>
-                  anilist.fetchEpisodesListById(
-                    id,
-                    dub as boolean,
-                    fetchFiller as boolean,
-                  ),
-                dayOfWeek === 0 || dayOfWeek === 6 ? 60 * 120 : (60 * 60) / 2,
-              ),
-            )
-        : reply
-            .status(200)
-            .send(await anilist.fetchEpisodesListById(id, dub, fetchFiller as boolean));
-    } catch (err) {
-      return reply.status(404).send({ message: 'Anime not found' });
-    }
-  });
+      try {
+        reply
+          .status(200)
+          .send(
+            await cache.fetch(
+              `anilist:episodes;${id};${dub};${fetchFiller};${anilist.provider.name.toLowerCase()}`,
+              async () => anilist.fetchEpisodesListById(id, dub, fetchFiller),
+              cache.policy('anilist', 'info'),
+            ),
+          );
+      } catch (err) {
+        throw new NotFound('Anime not found');
+      }
+    },
+  );
 
   // anilist info without episodes
-  fastify.get('/data/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
+  fastify.get(
+    '/data/:id',
+    {
+      schema: { params: object({ id: text }, ['id']) },
+      config: { normalize: toAnimeInfo },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const id = request.params.id;
 
-    const anilist = generateAnilistMeta();
-    const res = await anilist.fetchAnilistInfoById(id);
+      const anilist = anilistFor();
+      const res = await anilist.fetchAnilistInfoById(id);
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
   // anilist info with episodes
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const provider = (request.query as { provider?: string }).provider;
-    let fetchFiller = (request.query as { fetchFiller?: string | boolean }).fetchFiller;
-    let isDub = (request.query as { dub?: string | boolean }).dub;
-    const locale = (request.query as { locale?: string }).locale;
+  fastify.get(
+    '/info/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({
+          provider: text,
+          fetchFiller: flag,
+          dub: flag,
+          locale: text,
+        }),
+      },
+      config: { normalize: toAnimeInfo },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: {
+          provider?: string;
+          fetchFiller?: boolean;
+          dub?: boolean;
+          locale?: string;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const fetchFiller = request.query.fetchFiller ?? false;
+      const isDub = request.query.dub ?? false;
+      const locale = request.query.locale;
+
+      const anilist = anilistFor();
+
+      reply
+        .status(200)
+        .send(
+          await cache.fetch(
+            `anilist:info;${id};${isDub};${fetchFiller};${anilist.provider.name.toLowerCase()}`,
+            async () => anilist.fetchAnimeInfo(id, isDub, fetchFiller),
+            cache.policy('anilist', 'info'),
+          ),
+        );
+    },
+  );
 
-    let anilist = generateAnilistMeta(provider);
+  // anilist character info
+  fastify.get(
+    '/character/:id',
+    { schema: { params: object({ id: text }, ['id']) } },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const id = request.params.id;
 
-    if (isDub === 'true' || isDub === '1') isDub = true;
-    else isDub = false;
+      const anilist = anilistFor();
+      const res = await anilist.fetchCharacterInfoById(id);
 
-    if (fetchFiller === 'true' || fetchFiller === '1') fetchFiller = true;
-    else fetchFiller = false;
+      reply.status(200).send(res);
+    },
+  );
 
-    try {
-      redis
-        ? reply
-            .status(200)
-            .send(
-              await cache.fetch(
-                redis,
-                `anilist:info;${id};${isDub};${fetchFiller};${anilist.provider.name.toLowerCase()}`,
-                async () =>
-                  anilist.fetchAnimeInfo(id, isDub as boolean, fetchFiller as boolean),
-                dayOfWeek === 0 || dayOfWeek === 6 ? 60 * 120 : (60 * 60) / 2,
-              ),
-            )
-        : reply
-            .status(200)
-            .send(
-              await anilist.fetchAnimeInfo(id, isDub as boolean, fetchFiller as boolean),
-            );
-    } catch (err: any) {
-      reply.status(500).send({ message: err.message });
-    }
-  });
+  fastify.get(
+    '/watch/:episodeId',
+    {
+      schema: {
+        params: object({ episodeId: text }, ['episodeId']),
+        querystring: object({ provider: text, server, dub: flag, proxy: flag }),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { episodeId: string };
+        Querystring: {
+          provider?: string;
+          server?: StreamingServers;
+          dub?: boolean;
+          proxy?: boolean;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
+      const provider = request.query.provider;
+      const server = request.query.server;
+      const isDub = request.query.dub ?? false;
+      const proxy = request.query.proxy;
+
+      const anilist = anilistFor();
+
+      const res = await cache.fetch(
+        `anilist:watch;${episodeId};${anilist.provider.name.toLowerCase()};${server};${isDub ? 'dub' : 'sub'}`,
+        async () =>
+          provider === 'zoro' || provider === 'animekai'
+            ? await anilist.fetchEpisodeSources(
+                episodeId,
+                server,
+                isDub ? SubOrSub.DUB : SubOrSub.SUB,
+              )
+            : await anilist.fetchEpisodeSources(episodeId, server),
+        cache.policy('anilist', 'watch'),
+      );
 
-  // anilist character info
-  fastify.get('/character/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
+    },
+  );
 
-    const anilist = generateAnilistMeta();
-    const res = await anilist.fetchCharacterInfoById(id);
+  // tries providers and servers in order until one returns playable sources
+  fastify.get(
+    '/resolve/:id',
+    {
+      schema: {
+        params: object({ id: numericId }, ['id']),
+        querystring: object(
+          {
+            episode: positive,
+            idType: oneOf(['anilist', 'mal']),
+            providers: text,
+            servers: text,
+            dub: flag,
+          },
+          ['episode'],
+        ),
+      },
+      config: { normalize: toSourceSet },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: {
+          episode: number;
+          idType?: 'anilist' | 'mal';
+          providers?: string;
+          servers?: string;
+          dub?: boolean;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const episode = request.query.episode;
+      const idType = request.query.idType ?? 'anilist';
+      const providers = request.query.providers;
+      const servers = request.query.servers;
+      const isDub = request.query.dub ?? false;
+
+      const providerList = providers
+        ? providers.split(',').map((provider) => provider.trim())
+        : DEFAULT_RESOLVE_PROVIDERS;
+
+      const unknownProviders = providerList.filter(
+        (provider) => !findAnimeProvider(provider),
+      );
+      if (unknownProviders.length > 0)
+        throw new InvalidInput(`Unknown providers: ${unknownProviders.join(', ')}`);
 
-    reply.status(200).send(res);
-  });
+      const serverList = servers
+        ? (servers.split(',').map((server) => server.trim()) as StreamingServers[])
+        : undefined;
 
-  fastify.get(
-    '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-      const provider = (request.query as { provider?: string }).provider;
-      const server = (request.query as { server?: StreamingServers }).server;
-      let isDub = (request.query as { dub?: string | boolean }).dub;
+      if (serverList?.some((server) => !Object.values(StreamingServers).includes(server)))
+        throw new InvalidInput('Invalid server');
+
+      const anilistId = idType === 'mal' ? await fetchAnilistIdByMalId(id) : id;
+      if (!anilistId) throw new NotFound(`No AniList entry found for MAL id ${id}`);
+
+      const res = await resolveEpisodeSources(
+        anilistId,
+        episode,
+        isDub,
+        providerList,
+        serverList,
+      );
 
-      if (server && !Object.values(StreamingServers).includes(server))
-        return reply.status(400).send('Invalid server');
+      if (!res.sources)
+        throw new NotFound('No provider returned playable sources for this episode', {
+          details: { attempts: res.attempts },
+        });
 
-      if (isDub === 'true' || isDub === '1') isDub = true;
-      else isDub = false;
+      reply.status(200).send(res);
+    },
+  );
 
-      let anilist = generateAnilistMeta(provider);
+  fastify.get(
+    '/staff/:id',
+    { schema: { params: object({ id: text }, ['id']) } },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const id = request.params.id;
 
+      const anilist = anilistFor();
       try {
-        redis
-          ? reply
-              .status(200)
-              .send(
-                await cache.fetch(
-                  redis,
-                  `anilist:watch;${episodeId};${anilist.provider.name.toLowerCase()};${server};${isDub ? 'dub' : 'sub'}`,
-                  async () =>
-                    provider === 'zoro' || provider === 'animekai'
-                      ? await anilist.fetchEpisodeSources(
-                          episodeId,
-                          server,
-                          isDub ? SubOrSub.DUB : SubOrSub.SUB,
-                        )
-                      : await anilist.fetchEpisodeSources(episodeId, server),
-                  600,
-                ),
-              )
-          : reply
-              .status(200)
-              .send(
-                provider === 'zoro' || provider === 'animekai'
-                  ? await anilist.fetchEpisodeSources(
-                      episodeId,
-                      server,
-                      isDub ? SubOrSub.DUB : SubOrSub.SUB,
-                    )
-                  : await anilist.fetchEpisodeSources(episodeId, server),
-              );
-
-        anilist = new META.Anilist(undefined, {
-          url: process.env.PROXY as string | string[],
-        });
-      } catch (err) {
         reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
+          .status(200)
+          .send(
+            await cache.fetch(
+              `anilist:staff;${id}`,
+              async () => await anilist.fetchStaffById(Number(id)),
+              cache.policy('anilist', 'info'),
+            ),
+          );
+      } catch (err) {
+        throw toApiError(err, NotFound);
       }
     },
   );
 
-  fastify.get('/staff/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
+  fastify.get(
+    '/favorites',
+    { schema: { querystring: object({ type: oneOf(['ANIME', 'MANGA', 'BOTH']) }) } },
+    async (
+      request: FastifyRequest<{ Querystring: { type?: 'ANIME' | 'MANGA' | 'BOTH' } }>,
+      reply: FastifyReply,
+    ) => {
+      const type = request.query.type;
+      const headers = request.headers as Record<string, string>;
+
+      if (!headers.authorization) {
+        throw new Unauthorized('Authorization header is required');
+      }
 
-    const anilist = generateAnilistMeta();
+      const anilist = anilistFor();
+
+      const res = await anilist.fetchFavoriteList(headers.authorization, type);
+      reply.status(200).send(res);
+    },
+  );
+};
+
+// provider order used by /resolve when `providers` is not given
+const DEFAULT_RESOLVE_PROVIDERS = (
+  process.env.RESOLVE_PROVIDERS ?? 'hianime,animekai,animepahe'
+)
+  .split(',')
+  .map((provider) => provider.trim());
+
+const findAnimeProvider = (provider: string) =>
+  PROVIDERS_LIST.ANIME.find((p) => p.name.toLowerCase() === provider.toLowerCase());
+
+interface ResolveAttempt {
+  provider: string;
+  server?: string;
+  stage: 'episodes' | 'sources';
+  ok: boolean;
+  error?: string;
+  duration: number;
+}
+
+const resolveEpisodeSources = async (
+  anilistId: string,
+  episode: number,
+  dub: boolean,
+  providers: string[],
+  servers?: StreamingServers[],
+) => {
+  const attempts: ResolveAttempt[] = [];
+
+  const attempt = async <T>(
+    entry: Omit<ResolveAttempt, 'ok' | 'duration'>,
+    fn: () => Promise<T>,
+  ) => {
+    const start = Date.now();
     try {
-      redis
-        ? reply
-            .status(200)
-            .send(
-              await cache.fetch(
-                redis,
-                `anilist:staff;${id}`,
-                async () => await anilist.fetchStaffById(Number(id)),
-                60 * 60,
-              ),
-            )
-        : reply.status(200).send(await anilist.fetchStaffById(Number(id)));
+      const res = await fn();
+      attempts.push({ ...entry, ok: true, duration: Date.now() - start });
+      return res;
     } catch (err: any) {
-      reply.status(404).send({ message: err.message });
+      attempts.push({
+        ...entry,
+        ok: false,
+        error: err.message,
+        duration: Date.now() - start,
+      });
+      return undefined;
     }
-  });
+  };
 
-  fastify.get('/favorites', async (request: FastifyRequest, reply: FastifyReply) => {
-    const type = (request.query as {type?: "ANIME" | "MANGA" | "BOTH"}).type
-    const headers = request.headers as Record<string, string>
+  for (const provider of providers) {
+    const anilist = anilistFor(provider);
 
-    if (!headers.authorization) {
-      return reply.status(401).send({ message: 'Authorization header is required' });
-    }
-
-    const anilist = generateAnilistMeta();
+    const episodes = await attempt({ provider, stage: 'episodes' }, async () => {
+      const list = await anilist.fetchEpisodesListById(anilistId, dub, false);
+      if (!list.some((ep: any) => ep.number === episode))
+        throw new Error(`Episode ${episode} not found`);
+      return list;
+    });
+    const episodeId: string | undefined = episodes?.find(
+      (ep: any) => ep.number === episode,
+    )?.id;
+    if (!episodeId) continue;
+
+    // without an explicit list, try the provider default first and then its other servers
+    const providerServers: { name: string }[] = servers
+      ? []
+      : await anilist.fetchEpisodeServers(episodeId).catch(() => []);
+    const candidates: (StreamingServers | undefined)[] = servers ?? [
+      undefined,
+      ...providerServers
+        .map((server) => server.name.toLowerCase() as StreamingServers)
+        .filter((server) => Object.values(StreamingServers).includes(server)),
+    ];
+
+    for (const server of [...new Set(candidates)]) {
+      const sources = await attempt({ provider, server, stage: 'sources' }, async () => {
+        const res = await anilist.fetchEpisodeSources(
+          episodeId,
+          server,
+          dub ? SubOrSub.DUB : SubOrSub.SUB,
+        );
+        if (!res?.sources?.length) throw new Error('No sources returned');
+        return res;
+      });
 
-    try {
-      const res = await anilist.fetchFavoriteList(headers.authorization, type);
-      reply.status(200).send(res);
-    } catch (err: any) {
-      reply.status(500).send({ message: err.message });
+      // the source set itself, with the winner and the attempt log next to it
+      if (sources)
+        return {
+          ...sources,
+          anilistId,
+          episode,
+          provider,
+          server: server ?? 'default',
+          episodeId,
+          attempts,
+        };
     }
-  });
+  }
+
+  return { anilistId, episode, sources: undefined, attempts };
 };
 
-const generateAnilistMeta = (provider: string | undefined = undefined): Anilist => {
-  const hianime = new Hianime();
+// hianime is the default provider, with the referer its player expects. Only /resolve
+// picks other providers; the other routes keep hianime whatever `?provider=` says
+const anilistFor = providerPool(PROVIDERS_LIST.ANIME, (provider) => {
+  if (provider && provider.name.toLowerCase() !== 'hianime')
+    return withProxyPool(
+      new Anilist(withProxyPool(provider), {
+        url: process.env.PROXY as string | string[],
+      }),
+    );
+
+  const hianime = withProxyPool(new Hianime());
   // @ts-ignore
   hianime.client.defaults.headers.common['Referer'] = 'https://megaplay.buzz';
-  return new Anilist(hianime, {
-    url: process.env.PROXY as string | string[],
-  });
-};
+  return withProxyPool(
+    new Anilist(hianime, {
+      url: process.env.PROXY as string | string[],
+    }),
+  );
+});
 
 export default routes;
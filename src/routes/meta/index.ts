@@ -5,46 +5,55 @@ import anilist from './anilist';
 import anilistManga from './anilist-manga';
 import mal from './mal';
 import tmdb from './tmdb';
+import mappings from './mappings';
+import { NotFound } from '../../utils/errors';
+import { object, page, text } from '../../utils/schemas';
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(anilist, { prefix: '/anilist' });
   await fastify.register(anilistManga, { prefix: '/anilist-manga' });
   await fastify.register(mal, { prefix: '/mal' });
   await fastify.register(tmdb, { prefix: '/tmdb' });
+  await fastify.register(mappings, { prefix: '/mappings' });
 
   fastify.get('/', async (request: any, reply: any) => {
     reply.status(200).send('Welcome to Consumet Meta');
   });
 
-  fastify.get('/:metaProvider', async (request: FastifyRequest, reply: FastifyReply) => {
-    const queries: { metaProvider: string; page: number } = {
-      metaProvider: '',
-      page: 1,
-    };
+  fastify.get(
+    '/:metaProvider',
+    {
+      schema: {
+        params: object({ metaProvider: text }, ['metaProvider']),
+        querystring: object({ page }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { metaProvider: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const queries: { metaProvider: string; page: number } = {
+        metaProvider: '',
+        page: 1,
+      };
+
+      queries.metaProvider = decodeURIComponent(request.params.metaProvider);
+
+      queries.page = request.query.page ?? 1;
+
+      const provider = PROVIDERS_LIST.META.find(
+        (provider: any) => provider.toString.name === queries.metaProvider,
+      );
 
-    queries.metaProvider = decodeURIComponent(
-      (request.params as { metaProvider: string; page: number }).metaProvider,
-    );
-
-    queries.page = (request.query as { metaProvider: string; page: number }).page;
-
-    if (queries.page! < 1) queries.page = 1;
-
-    const provider = PROVIDERS_LIST.META.find(
-      (provider: any) => provider.toString.name === queries.metaProvider,
-    );
-
-    try {
       if (provider) {
         reply.redirect(`/anime/${provider.toString.name}`);
       } else {
-        reply
-          .status(404)
-          .send({ message: 'Provider not found, please check the providers list.' });
+        throw new NotFound('Provider not found, please check the providers list.');
       }
-    } catch (err) {
-      reply.status(500).send('Something went wrong. Please try again later.');
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -1,87 +1,122 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 import { META, PROVIDERS_LIST } from '@consumet/extensions';
 
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toAnimeInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { providerPool } from '../../utils/providerpool';
+import { withProxyPool } from '../../utils/proxypool';
+import { NotFound, toApiError } from '../../utils/errors';
+import { flag, object, page, perPage, text } from '../../utils/schemas';
+
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  let mal = new META.Myanimelist();
+  const malFor = providerPool(PROVIDERS_LIST.ANIME, (provider) =>
+    withProxyPool(new META.Myanimelist(provider && withProxyPool(provider))),
+  );
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro:
         "Welcome to the mal provider: check out the provider's website @ https://mal.co/",
-      routes: ['/:query', '/info/:id', '/watch/:episodeId'],
-      documentation: 'https://docs.consumet.org/#tag/mal',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
+  fastify.get(
+    '/:query',
+    {
+      schema: {
+        params: object({ query: text }, ['query']),
+        querystring: object({ page, perPage }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { query: string };
+        Querystring: { page?: number; perPage?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.params.query;
 
-    const page = (request.query as { page: number }).page;
-    const perPage = (request.query as { perPage: number }).perPage;
+      const page = request.query.page;
+      const perPage = request.query.perPage;
 
-    const res = await mal.search(query, page);
+      const res = await malFor().search(query, page);
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
   // mal info with episodes
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-
-    const provider = (request.query as { provider?: string }).provider;
-    let fetchFiller = (request.query as { fetchFiller?: string | boolean }).fetchFiller;
-    let isDub = (request.query as { dub?: string | boolean }).dub;
-    const locale = (request.query as { locale?: string }).locale;
-
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.ANIME.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-
-      mal = new META.Myanimelist(possibleProvider);
-    }
-
-    if (isDub === 'true' || isDub === '1') isDub = true;
-    else isDub = false;
-
-    if (fetchFiller === 'true' || fetchFiller === '1') fetchFiller = true;
-    else fetchFiller = false;
-
-    try {
-      const res = await mal.fetchAnimeInfo(id, isDub as boolean, fetchFiller as boolean);
+  fastify.get(
+    '/info/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({
+          provider: text,
+          fetchFiller: flag,
+          dub: flag,
+          locale: text,
+        }),
+      },
+      config: { normalize: toAnimeInfo },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: {
+          provider?: string;
+          fetchFiller?: boolean;
+          dub?: boolean;
+          locale?: string;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+
+      const provider = request.query.provider;
+      const fetchFiller = request.query.fetchFiller ?? false;
+      const isDub = request.query.dub ?? false;
+      const locale = request.query.locale;
+
+      const mal = malFor(provider);
+
+      const res = await mal.fetchAnimeInfo(id, isDub, fetchFiller);
 
-      mal = new META.Myanimelist(undefined);
       reply.status(200).send(res);
-    } catch (err: any) {
-      reply.status(500).send({ message: err.message });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/watch/:episodeId',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const episodeId = (request.params as { episodeId: string }).episodeId;
-      const provider = (request.query as { provider?: string }).provider;
-
-      if (typeof provider !== 'undefined') {
-        const possibleProvider = PROVIDERS_LIST.ANIME.find(
-          (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-        );
-
-        mal = new META.Myanimelist(possibleProvider);
-      }
-      try {
-        const res = await mal
-          .fetchEpisodeSources(episodeId)
-          .catch((err) => reply.status(404).send({ message: err }));
-
-        mal = new META.Myanimelist(undefined);
-        reply.status(200).send(res);
-      } catch (err) {
-        reply
-          .status(500)
-          .send({ message: 'Something went wrong. Contact developer for help.' });
-      }
+    {
+      schema: {
+        params: object({ episodeId: text }, ['episodeId']),
+        querystring: object({ provider: text }),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { episodeId: string };
+        Querystring: { provider?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.params.episodeId;
+      const provider = request.query.provider;
+
+      const mal = malFor(provider);
+
+      const res = await mal.fetchEpisodeSources(episodeId).catch((err) => {
+        throw toApiError(err, NotFound);
+      });
+
+      return reply.status(200).send(res);
     },
   );
 };
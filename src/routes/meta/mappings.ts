@@ -0,0 +1,206 @@
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+import { META } from '@consumet/extensions';
+
+import { tmdbApi } from '../../main';
+import { requireAdmin } from '../../utils/admin';
+import {
+  ANIME_SEARCH_PROVIDERS,
+  searchProviders,
+  titleSimilarity,
+} from '../../utils/aggregator';
+import {
+  fetchAnilistIdByMalId,
+  fetchAnilistMedia,
+  getMappingStore,
+  MappingRecord,
+  ProviderMapping,
+} from '../../utils/mappings';
+import { withProxyPool } from '../../utils/proxypool';
+import { InvalidInput, NotFound } from '../../utils/errors';
+import { flag, numericId, object, oneOf, text } from '../../utils/schemas';
+
+// minimum similarity for a provider result to be accepted as the same title
+const MATCH_THRESHOLD = 0.75;
+
+const SOURCES = ['anilist', 'mal', 'tmdb', ...ANIME_SEARCH_PROVIDERS];
+// ids that are looked up on AniList, which only knows numbers
+const NUMERIC_SOURCES = ['anilist', 'mal'];
+
+// the fields of a TMDB search result the matching reads
+interface TmdbResult {
+  id: string | number;
+  title?: unknown;
+  type?: unknown;
+  releaseDate?: unknown;
+}
+
+interface OverrideRoute {
+  Params: { id: string };
+  Body: { source: string; id: string | null };
+}
+
+const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
+  fastify.get(
+    '/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({ source: oneOf(SOURCES), refresh: flag }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { source?: string; refresh?: boolean };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const source = request.query.source ?? 'anilist';
+      const refresh = request.query.refresh;
+
+      if (NUMERIC_SOURCES.includes(source) && !/^\d+$/.test(id))
+        throw new InvalidInput(`${source} ids are numeric`);
+
+      const store = getMappingStore();
+      const anilistId =
+        source === 'anilist'
+          ? id
+          : ((await store.lookup(source, id)) ??
+            (source === 'mal' ? await fetchAnilistIdByMalId(id) : null));
+
+      if (!anilistId)
+        throw new NotFound(
+          `No mapping known for ${source} id ${id}. Resolve it from its AniList id first.`,
+        );
+
+      const existing = await store.get(anilistId);
+      if (existing && !refresh) return reply.status(200).send(existing);
+
+      const record = await buildMapping(fastify, anilistId, existing);
+      await store.save(record);
+
+      reply.status(200).send(record);
+    },
+  );
+
+  // manual override, e.g. `{ "source": "anizone", "id": "frieren" }` or `"id": null` to unmap
+  fastify.put<OverrideRoute>(
+    '/:id',
+    {
+      preHandler: requireAdmin,
+      schema: {
+        params: object({ id: numericId }, ['id']),
+        body: {
+          ...object(
+            {
+              source: oneOf(SOURCES.filter((source) => source !== 'anilist')),
+              id: { type: ['string', 'null'], minLength: 1 },
+            },
+            ['source', 'id'],
+          ),
+          if: { properties: { source: { const: 'mal' } } },
+          then: { properties: { id: { ...numericId, type: ['string', 'null'] } } },
+        },
+      },
+    },
+    async (request: FastifyRequest<OverrideRoute>, reply: FastifyReply) => {
+      const anilistId = request.params.id;
+      const { source, id } = request.body;
+
+      const store = getMappingStore();
+      const record =
+        (await store.get(anilistId)) ?? (await buildMapping(fastify, anilistId, null));
+
+      if (source === 'mal') record.malId = id ?? undefined;
+      else if (source === 'tmdb') record.tmdbId = id ?? undefined;
+      else record.providers[source] = id === null ? null : { id, manual: true };
+
+      record.updatedAt = new Date().toISOString();
+      await store.save(record);
+
+      reply.status(200).send(record);
+    },
+  );
+};
+
+const yearOf = (date?: string | number | null) => {
+  const year = String(date ?? '').match(/\d{4}/)?.[0];
+  return year ? Number(year) : undefined;
+};
+
+// best title similarity, halved when both sides know the year and it differs
+const scoreMatch = (titles: string[], year: number | undefined, candidate: any) => {
+  const similarity = Math.max(
+    ...titles.map((title) => titleSimilarity(title, candidate.title)),
+  );
+  const candidateYear = yearOf(candidate.releaseDate);
+
+  return year && candidateYear && Math.abs(year - candidateYear) > 1
+    ? similarity / 2
+    : similarity;
+};
+
+const buildMapping = async (
+  fastify: FastifyInstance,
+  anilistId: string,
+  existing: MappingRecord | null,
+): Promise<MappingRecord> => {
+  const media = await fetchAnilistMedia({ id: Number(anilistId) });
+  if (!media) throw new Error(`No AniList entry found for id ${anilistId}`);
+
+  const year = media.seasonYear ?? media.startDate?.year ?? undefined;
+  const titles = [media.title.english, media.title.romaji, ...media.synonyms].filter(
+    (title): title is string => !!title,
+  );
+
+  const { results } = await searchProviders(fastify, titles[0], ANIME_SEARCH_PROVIDERS);
+
+  const providers: Record<string, ProviderMapping | null> = {};
+  for (const provider of ANIME_SEARCH_PROVIDERS) {
+    const manual = existing?.providers[provider];
+    if (manual?.manual || (existing && manual === null)) {
+      providers[provider] = manual;
+      continue;
+    }
+
+    const best = results
+      .filter((result) => result.provider === provider)
+      .map((result) => ({ result, score: scoreMatch(titles, year, result) }))
+      .sort((one, two) => two.score - one.score)[0];
+
+    if (best && best.score >= MATCH_THRESHOLD)
+      providers[provider] = {
+        id: best.result.id,
+        title: best.result.title,
+        score: Number(best.score.toFixed(3)),
+      };
+  }
+
+  let tmdbId = existing?.tmdbId;
+  if (!tmdbId && tmdbApi) {
+    const tmdb = withProxyPool(new META.TMDB(tmdbApi));
+    // a failed TMDB search leaves the mapping without a TMDB id
+    const { results: tmdbResults }: { results: TmdbResult[] } = await tmdb
+      .search(titles[0])
+      .catch(() => ({ results: [] }));
+    const best = tmdbResults
+      .filter((result) => (media.format === 'MOVIE') === (result.type === 'Movie'))
+      .map((result) => ({ result, score: scoreMatch(titles, year, result) }))
+      .sort((one, two) => two.score - one.score)[0];
+
+    if (best && best.score >= MATCH_THRESHOLD) tmdbId = String(best.result.id);
+  }
+
+  return {
+    anilistId: String(media.id),
+    malId: existing?.malId ?? (media.idMal ? String(media.idMal) : undefined),
+    tmdbId,
+    title: media.title,
+    year,
+    providers,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export default routes;
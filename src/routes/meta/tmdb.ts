@@ -1,99 +1,147 @@
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 import { META, PROVIDERS_LIST, StreamingServers } from '@consumet/extensions';
 import { tmdbApi } from '../../main';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMovieInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { providerPool } from '../../utils/providerpool';
+import { withProxyPool } from '../../utils/proxypool';
+import { InvalidInput, NotFound, toApiError } from '../../utils/errors';
+import {
+  SearchRequest,
+  object,
+  oneOf,
+  page,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
+  const tmdbFor = providerPool(PROVIDERS_LIST.MOVIES, (provider) =>
+    withProxyPool(new META.TMDB(tmdbApi, provider && withProxyPool(provider))),
+  );
+
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro:
         "Welcome to the tmdb provider: check out the provider's website @ https://www.themoviedb.org/",
-      routes: ['/:query', '/info/:id', '/watch/:episodeId'],
-      documentation: 'https://docs.consumet.org/#tag/tmdb',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = (request.params as { query: string }).query;
-    const page = (request.query as { page: number }).page;
-    const tmdb = new META.TMDB(tmdbApi);
-
-    const res = await tmdb.search(query, page);
-
-    reply.status(200).send(res);
-  });
-
-  fastify.get('/info/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.params as { id: string }).id;
-    const type = (request.query as { type: string }).type;
-    const provider = (request.query as { provider?: string }).provider;
-    let tmdb = new META.TMDB(tmdbApi);
-
-    if (!type) return reply.status(400).send({ message: "The 'type' query is required" });
-
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.MOVIES.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-      tmdb = new META.TMDB(tmdbApi, possibleProvider);
-    }
-
-    const res = await tmdb.fetchMediaInfo(id, type);
-    reply.status(200).send(res);
-  });
-
-  fastify.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
-    const validTimePeriods = new Set(['day', 'week'] as const);
-    type validTimeType = typeof validTimePeriods extends Set<infer T> ? T : undefined;
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = request.params.query;
+      const page = request.query.page;
+      const tmdb = tmdbFor();
 
-    const type = (request.query as { type?: string }).type || 'all';
-    let timePeriod =
-      (request.query as { timePeriod?: validTimeType }).timePeriod || 'day';
+      const res = await tmdb.search(query, page);
 
-    // make day as default time period
-    if (!validTimePeriods.has(timePeriod)) timePeriod = 'day';
-
-    const page = (request.query as { page?: number }).page || 1;
-
-    const tmdb = new META.TMDB(tmdbApi);
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/info/:id',
+    {
+      schema: {
+        params: object({ id: text }, ['id']),
+        querystring: object({ type: text, provider: text }, ['type']),
+      },
+      config: { normalize: toMovieInfo },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { type: string; provider?: string };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const id = request.params.id;
+      const type = request.query.type;
+      const provider = request.query.provider;
+      const tmdb = tmdbFor(provider);
+
+      const res = await tmdb.fetchMediaInfo(id, type);
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/trending',
+    {
+      schema: {
+        querystring: object({
+          type: oneOf(['all', 'movie', 'tv']),
+          timePeriod: oneOf(['day', 'week']),
+          page,
+        }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { type?: string; timePeriod?: 'day' | 'week'; page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const type = request.query.type || 'all';
+      // make day as default time period
+      const timePeriod = request.query.timePeriod || 'day';
+
+      const page = request.query.page || 1;
+
+      const tmdb = tmdbFor();
 
-    try {
       const res = await tmdb.fetchTrending(type, timePeriod, page);
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({ message: 'Failed to fetch trending media.' });
-    }
-  });
+    },
+  );
 
-  const watch = async (request: FastifyRequest, reply: FastifyReply) => {
-    let episodeId = (request.params as { episodeId: string }).episodeId;
-    if (!episodeId) {
-      episodeId = (request.query as { episodeId: string }).episodeId;
-    }
-    const id = (request.query as { id: string }).id;
-    const provider = (request.query as { provider?: string }).provider;
-    const server = (request.query as { server?: StreamingServers }).server;
-
-    let tmdb = new META.TMDB(tmdbApi);
-    if (typeof provider !== 'undefined') {
-      const possibleProvider = PROVIDERS_LIST.MOVIES.find(
-        (p) => p.name.toLowerCase() === provider.toLocaleLowerCase(),
-      );
-      tmdb = new META.TMDB(tmdbApi, possibleProvider);
-    }
-    try {
-      const res = await tmdb
-        .fetchEpisodeSources(episodeId, id, server)
-        .catch((err) => reply.status(404).send({ message: err }));
+  const watchSchema = {
+    params: object({ episodeId: text }),
+    querystring: object({ episodeId: text, id: text, provider: text, server }),
+  };
 
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Contact developer for help.' });
-    }
+  const watch = async (
+    request: FastifyRequest<{
+      Params: { episodeId?: string };
+      Querystring: {
+        episodeId?: string;
+        id?: string;
+        provider?: string;
+        server?: StreamingServers;
+      };
+    }>,
+    reply: FastifyReply,
+  ) => {
+    const episodeId = request.params.episodeId ?? request.query.episodeId;
+    if (!episodeId) throw new InvalidInput('episodeId is required');
+
+    const id = request.query.id;
+    const provider = request.query.provider;
+    const server = request.query.server;
+
+    const tmdb = tmdbFor(provider);
+    const res = await tmdb.fetchEpisodeSources(episodeId, id, server).catch((err) => {
+      throw toApiError(err, NotFound);
+    });
+
+    return reply.status(200).send(res);
   };
-  fastify.get('/watch', watch);
-  fastify.get('/watch/:episodeId', watch);
+  fastify.get(
+    '/watch',
+    { schema: watchSchema, config: { normalize: toSourceSet, expandQualities: true } },
+    watch,
+  );
+  fastify.get(
+    '/watch/:episodeId',
+    { schema: watchSchema, config: { normalize: toSourceSet, expandQualities: true } },
+    watch,
+  );
 };
 
 export default routes;
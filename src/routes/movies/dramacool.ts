@@ -3,161 +3,134 @@ import { MOVIES } from '@consumet/extensions';
 import { StreamingServers } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMovieInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  PageRequest,
+  SearchRequest,
+  idSchema,
+  object,
+  pageSchema,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const dramacool = new MOVIES.DramaCool();
+  const dramacool = withProxyPool(new MOVIES.DramaCool());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the dramacool provider: check out the provider's website @ ${dramacool.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/info',
-        '/watch',
-        '/popular',
-        '/recent-movies',
-        '/recent-shows',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/dramacool',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const query = decodeURIComponent((request.params as { query: string }).query);
-      const page = (request.query as { page: number }).page;
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = decodeURIComponent(request.params.query);
+      const page = request.query.page;
 
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:${query}:${page}`,
-            async () => await dramacool.search(query, page),
-            REDIS_TTL,
-          )
-        : await dramacool.search(query, page);
+      let res = await cache.fetch(
+        `dramacool:${query}:${page}`,
+        async () => await dramacool.search(query, page),
+        cache.policy('dramacool', 'search'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({
-        message: 'id is required',
-      });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMovieInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:info:${id}`,
-            async () => await dramacool.fetchMediaInfo(id),
-            REDIS_TTL,
-          )
-        : await dramacool.fetchMediaInfo(id);
+      let res = await cache.fetch(
+        `dramacool:info:${id}`,
+        async () => await dramacool.fetchMediaInfo(id),
+        cache.policy('dramacool', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const server = (request.query as { server: StreamingServers }).server;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:watch:${episodeId}:${server}`,
-            async () => await dramacool.fetchEpisodeSources(episodeId, server),
-            REDIS_TTL,
-          )
-        : await dramacool.fetchEpisodeSources(episodeId, server);
+    },
+  );
+
+  fastify.get(
+    '/watch',
+    {
+      schema: { querystring: object({ episodeId: text, server }, ['episodeId']) },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { episodeId: string; server?: StreamingServers };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const server = request.query.server;
+
+      let res = await cache.fetch(
+        `dramacool:watch:${episodeId}:${server}`,
+        async () => await dramacool.fetchEpisodeSources(episodeId, server),
+        cache.policy('dramacool', 'watch'),
+      );
+
+      return reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/popular',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `dramacool:popular:${page}`,
+        async () => await dramacool.fetchPopular(page ? page : 1),
+        cache.policy('dramacool', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
-
-  fastify.get('/popular', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:popular:${page}`,
-            async () => await dramacool.fetchPopular(page ? page : 1),
-            REDIS_TTL,
-          )
-        : await dramacool.fetchPopular(page ? page : 1);
+    },
+  );
+
+  fastify.get(
+    '/recent-movies',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `dramacool:recent-movies:${page}`,
+        async () => await dramacool.fetchRecentMovies(page ? page : 1),
+        cache.policy('dramacool', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
-
-  fastify.get('/recent-movies', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:recent-movies:${page}`,
-            async () => await dramacool.fetchRecentMovies(page ? page : 1),
-            REDIS_TTL,
-          )
-        : await dramacool.fetchRecentMovies(page ? page : 1);
+    },
+  );
+
+  fastify.get(
+    '/recent-shows',
+    { schema: pageSchema, config: { normalize: toResults } },
+    async (request: PageRequest, reply: FastifyReply) => {
+      const page = request.query.page;
+      let res = await cache.fetch(
+        `dramacool:recent-shows:${page}`,
+        async () => await dramacool.fetchRecentTvShows(page ? page : 1),
+        cache.policy('dramacool', 'schedule'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
-
-  fastify.get('/recent-shows', async (request: FastifyRequest, reply: FastifyReply) => {
-    const page = (request.query as { page: number }).page;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `dramacool:recent-shows:${page}`,
-            async () => await dramacool.fetchRecentTvShows(page ? page : 1),
-            REDIS_TTL,
-          )
-        : await dramacool.fetchRecentTvShows(page ? page : 1);
-
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -3,76 +3,87 @@ import { MOVIES } from '@consumet/extensions';
 import { StreamingServers } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMovieInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyUrls } from '../../utils/proxy';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  SearchRequest,
+  flag,
+  idSchema,
+  object,
+  page,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const flixhq = new MOVIES.FlixHQ();
+  const flixhq = withProxyPool(new MOVIES.FlixHQ());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the flixhq provider: check out the provider's website @ ${flixhq.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/info',
-        '/watch',
-        '/recent-shows',
-        '/recent-movies',
-        '/trending',
-        '/servers',
-        '/country',
-        '/genre',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/flixhq',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = decodeURIComponent((request.params as { query: string }).query);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = decodeURIComponent(request.params.query);
 
-    const page = (request.query as { page: number }).page;
+      const page = request.query.page;
 
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `flixhq:${query}:${page}`,
-          async () => await flixhq.search(query, page ? page : 1),
-          REDIS_TTL,
-        )
-      : await flixhq.search(query, page ? page : 1);
+      let res = await cache.fetch(
+        `flixhq:${query}:${page}`,
+        async () => await flixhq.search(query, page ? page : 1),
+        cache.policy('flixhq', 'search'),
+      );
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/recent-shows', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `flixhq:recent-shows`,
-          async () => await flixhq.fetchRecentTvShows(),
-          REDIS_TTL,
-        )
-      : await flixhq.fetchRecentTvShows();
-
-    reply.status(200).send(res);
-  });
+  fastify.get(
+    '/recent-shows',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `flixhq:recent-shows`,
+        async () => await flixhq.fetchRecentTvShows(),
+        cache.policy('flixhq', 'schedule'),
+      );
 
-  fastify.get('/recent-movies', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `flixhq:recent-movies`,
-          async () => await flixhq.fetchRecentMovies(),
-          REDIS_TTL,
-        )
-      : await flixhq.fetchRecentMovies();
-
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/recent-movies',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `flixhq:recent-movies`,
+        async () => await flixhq.fetchRecentMovies(),
+        cache.policy('flixhq', 'schedule'),
+      );
 
-  fastify.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
-    const type = (request.query as { type: string }).type;
-    try {
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/trending',
+    { schema: { querystring: object({ type: text }) }, config: { normalize: toResults } },
+    async (
+      request: FastifyRequest<{ Querystring: { type?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const type = request.query.type;
       if (!type) {
         const res = {
           results: [
@@ -83,160 +94,150 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         return reply.status(200).send(res);
       }
 
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `flixhq:trending:${type}`,
-            async () =>
-              type === 'tv'
-                ? await flixhq.fetchTrendingTvShows()
-                : await flixhq.fetchTrendingMovies(),
-            REDIS_TTL,
-          )
-        : type === 'tv'
-          ? await flixhq.fetchTrendingTvShows()
-          : await flixhq.fetchTrendingMovies();
+      let res = await cache.fetch(
+        `flixhq:trending:${type}`,
+        async () =>
+          type === 'tv'
+            ? await flixhq.fetchTrendingTvShows()
+            : await flixhq.fetchTrendingMovies(),
+        cache.policy('flixhq', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({
-        message: 'id is required',
-      });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMovieInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `flixhq:info:${id}`,
-            async () => await flixhq.fetchMediaInfo(id),
-            REDIS_TTL,
-          )
-        : await flixhq.fetchMediaInfo(id);
+      let res = await cache.fetch(
+        `flixhq:info:${id}`,
+        async () => await flixhq.fetchMediaInfo(id),
+        cache.policy('flixhq', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-    const server = (request.query as { server: StreamingServers }).server;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    if (server && !Object.values(StreamingServers).includes(server))
-      return reply.status(400).send({ message: 'Invalid server query' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `flixhq:watch:${episodeId}:${mediaId}:${server}`,
-            async () => await flixhq.fetchEpisodeSources(episodeId, mediaId, server),
-            REDIS_TTL,
-          )
-        : await flixhq.fetchEpisodeSources(episodeId, mediaId, server);
+    },
+  );
 
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+  fastify.get(
+    '/watch',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text, server, proxy: flag }, [
+          'episodeId',
+          'mediaId',
+        ]),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: {
+          episodeId: string;
+          mediaId: string;
+          server?: StreamingServers;
+          proxy?: boolean;
+        };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+      const server = request.query.server;
+      const proxy = request.query.proxy;
+
+      let res = await cache.fetch(
+        `flixhq:watch:${episodeId}:${mediaId}:${server}`,
+        async () => await flixhq.fetchEpisodeSources(episodeId, mediaId, server),
+        cache.policy('flixhq', 'watch'),
+      );
+
+      return reply.status(200).send(proxy ? withProxyUrls(res, request) : res);
+    },
+  );
 
-  fastify.get('/servers', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `flixhq:servers:${episodeId}:${mediaId}`,
-            async () => await flixhq.fetchEpisodeServers(episodeId, mediaId),
-            REDIS_TTL,
-          )
-        : await flixhq.fetchEpisodeServers(episodeId, mediaId);
+  fastify.get(
+    '/servers',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text }, ['episodeId', 'mediaId']),
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; mediaId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+
+      let res = await cache.fetch(
+        `flixhq:servers:${episodeId}:${mediaId}`,
+        async () => await flixhq.fetchEpisodeServers(episodeId, mediaId),
+        cache.policy('flixhq', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/country/:country',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const country = (request.params as { country: string }).country;
-      const page = (request.query as { page: number }).page ?? 1;
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `flixhq:country:${country}:${page}`,
-              async () => await flixhq.fetchByCountry(country, page),
-              REDIS_TTL,
-            )
-          : await flixhq.fetchByCountry(country, page);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message:
-            'Something went wrong. Please try again later. or contact the developers.',
-        });
-      }
+    {
+      schema: {
+        params: object({ country: text }, ['country']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { country: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const country = request.params.country;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `flixhq:country:${country}:${page}`,
+        async () => await flixhq.fetchByCountry(country, page),
+        cache.policy('flixhq', 'trending'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/genre/:genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genre = (request.params as { genre: string }).genre;
-    const page = (request.query as { page: number }).page ?? 1;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `flixhq:genre:${genre}:${page}`,
-            async () => await flixhq.fetchByGenre(genre, page),
-            REDIS_TTL,
-          )
-        : await flixhq.fetchByGenre(genre, page);
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `flixhq:genre:${genre}:${page}`,
+        async () => await flixhq.fetchByGenre(genre, page),
+        cache.policy('flixhq', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 };
 export default routes;
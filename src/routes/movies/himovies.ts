@@ -3,76 +3,85 @@ import { MOVIES } from '@consumet/extensions';
 import { StreamingServers } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMovieInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  SearchRequest,
+  idSchema,
+  object,
+  page,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const himovies = new MOVIES.HiMovies();
+  const himovies = withProxyPool(new MOVIES.HiMovies());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the himovies provider: check out the provider's website @ ${himovies.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/info',
-        '/watch',
-        '/recent-shows',
-        '/recent-movies',
-        '/trending',
-        '/servers',
-        '/country',
-        '/genre',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/himovies',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = decodeURIComponent((request.params as { query: string }).query);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = decodeURIComponent(request.params.query);
 
-    const page = (request.query as { page: number }).page;
+      const page = request.query.page;
 
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `himovies:${query}:${page}`,
-          async () => await himovies.search(query, page ? page : 1),
-          REDIS_TTL,
-        )
-      : await himovies.search(query, page ? page : 1);
+      let res = await cache.fetch(
+        `himovies:${query}:${page}`,
+        async () => await himovies.search(query, page ? page : 1),
+        cache.policy('himovies', 'search'),
+      );
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/recent-shows', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `himovies:recent-shows`,
-          async () => await himovies.fetchRecentTvShows(),
-          REDIS_TTL,
-        )
-      : await himovies.fetchRecentTvShows();
-
-    reply.status(200).send(res);
-  });
+  fastify.get(
+    '/recent-shows',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `himovies:recent-shows`,
+        async () => await himovies.fetchRecentTvShows(),
+        cache.policy('himovies', 'schedule'),
+      );
 
-  fastify.get('/recent-movies', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `himovies:recent-movies`,
-          async () => await himovies.fetchRecentMovies(),
-          REDIS_TTL,
-        )
-      : await himovies.fetchRecentMovies();
-
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
-    const type = (request.query as { type: string }).type;
-    try {
+  fastify.get(
+    '/recent-movies',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `himovies:recent-movies`,
+        async () => await himovies.fetchRecentMovies(),
+        cache.policy('himovies', 'schedule'),
+      );
+
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/trending',
+    { schema: { querystring: object({ type: text }) }, config: { normalize: toResults } },
+    async (
+      request: FastifyRequest<{ Querystring: { type?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const type = request.query.type;
       if (!type) {
         const res = {
           results: [
@@ -83,160 +92,144 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         return reply.status(200).send(res);
       }
 
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `himovies:trending:${type}`,
-            async () =>
-              type === 'tv'
-                ? await himovies.fetchTrendingTvShows()
-                : await himovies.fetchTrendingMovies(),
-            REDIS_TTL,
-          )
-        : type === 'tv'
-          ? await himovies.fetchTrendingTvShows()
-          : await himovies.fetchTrendingMovies();
+      let res = await cache.fetch(
+        `himovies:trending:${type}`,
+        async () =>
+          type === 'tv'
+            ? await himovies.fetchTrendingTvShows()
+            : await himovies.fetchTrendingMovies(),
+        cache.policy('himovies', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({
-        message: 'id is required',
-      });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMovieInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `himovies:info:${id}`,
-            async () => await himovies.fetchMediaInfo(id),
-            REDIS_TTL,
-          )
-        : await himovies.fetchMediaInfo(id);
+      let res = await cache.fetch(
+        `himovies:info:${id}`,
+        async () => await himovies.fetchMediaInfo(id),
+        cache.policy('himovies', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-    const server = (request.query as { server: StreamingServers }).server;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    if (server && !Object.values(StreamingServers).includes(server))
-      return reply.status(400).send({ message: 'Invalid server query' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `himovies:watch:${episodeId}:${mediaId}:${server}`,
-            async () => await himovies.fetchEpisodeSources(episodeId, mediaId, server),
-            REDIS_TTL,
-          )
-        : await himovies.fetchEpisodeSources(episodeId, mediaId, server);
+    },
+  );
 
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+  fastify.get(
+    '/watch',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text, server }, [
+          'episodeId',
+          'mediaId',
+        ]),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { episodeId: string; mediaId: string; server?: StreamingServers };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+      const server = request.query.server;
+
+      let res = await cache.fetch(
+        `himovies:watch:${episodeId}:${mediaId}:${server}`,
+        async () => await himovies.fetchEpisodeSources(episodeId, mediaId, server),
+        cache.policy('himovies', 'watch'),
+      );
+
+      return reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/servers', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `himovies:servers:${episodeId}:${mediaId}`,
-            async () => await himovies.fetchEpisodeServers(episodeId, mediaId),
-            REDIS_TTL,
-          )
-        : await himovies.fetchEpisodeServers(episodeId, mediaId);
+  fastify.get(
+    '/servers',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text }, ['episodeId', 'mediaId']),
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; mediaId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+
+      let res = await cache.fetch(
+        `himovies:servers:${episodeId}:${mediaId}`,
+        async () => await himovies.fetchEpisodeServers(episodeId, mediaId),
+        cache.policy('himovies', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/country/:country',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const country = (request.params as { country: string }).country;
-      const page = (request.query as { page: number }).page ?? 1;
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `himovies:country:${country}:${page}`,
-              async () => await himovies.fetchByCountry(country, page),
-              REDIS_TTL,
-            )
-          : await himovies.fetchByCountry(country, page);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message:
-            'Something went wrong. Please try again later. or contact the developers.',
-        });
-      }
+    {
+      schema: {
+        params: object({ country: text }, ['country']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { country: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const country = request.params.country;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `himovies:country:${country}:${page}`,
+        async () => await himovies.fetchByCountry(country, page),
+        cache.policy('himovies', 'trending'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/genre/:genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genre = (request.params as { genre: string }).genre;
-    const page = (request.query as { page: number }).page ?? 1;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `himovies:genre:${genre}:${page}`,
-            async () => await himovies.fetchByGenre(genre, page),
-            REDIS_TTL,
-          )
-        : await himovies.fetchByGenre(genre, page);
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `himovies:genre:${genre}:${page}`,
+        async () => await himovies.fetchByGenre(genre, page),
+        cache.policy('himovies', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 };
 export default routes;
@@ -6,6 +6,8 @@ import dramacool from './dramacool';
 import goku from './goku';
 import sflix from './sflix';
 import himovies from './himovies';
+import { NotFound } from '../../utils/errors';
+import { object, page, text } from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(flixhq, { prefix: '/flixhq' });
@@ -18,38 +20,41 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
     reply.status(200).send('Welcome to Consumet Movies and TV Shows');
   });
 
-  fastify.get('/:movieProvider', async (request: FastifyRequest, reply: FastifyReply) => {
-    const queries: { movieProvider: string; page: number } = {
-      movieProvider: '',
-      page: 1,
-    };
+  fastify.get(
+    '/:movieProvider',
+    {
+      schema: {
+        params: object({ movieProvider: text }, ['movieProvider']),
+        querystring: object({ page }),
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { movieProvider: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const queries: { movieProvider: string; page: number } = {
+        movieProvider: '',
+        page: 1,
+      };
+
+      queries.movieProvider = decodeURIComponent(request.params.movieProvider);
+
+      queries.page = request.query.page ?? 1;
+
+      const provider = PROVIDERS_LIST.MOVIES.find(
+        (provider: any) => provider.toString.name === queries.movieProvider,
+      );
 
-    queries.movieProvider = decodeURIComponent(
-      (request.params as { movieProvider: string; page: number }).movieProvider,
-    );
-
-    queries.page = (request.query as { movieProvider: string; page: number }).page;
-
-    if (queries.page! < 1) queries.page = 1;
-
-    const provider = PROVIDERS_LIST.MOVIES.find(
-      (provider: any) => provider.toString.name === queries.movieProvider,
-    );
-
-    try {
       if (provider) {
         reply.redirect(`/movies/${provider.toString.name}`);
       } else {
-        reply
-          .status(404)
-          .send({ message: 'Page not found, please check the providers list.' });
+        throw new NotFound('Page not found, please check the providers list.');
       }
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+    },
+  );
 };
 
 export default routes;
@@ -3,76 +3,85 @@ import { MOVIES } from '@consumet/extensions';
 import { StreamingServers } from '@consumet/extensions/dist/models';
 
 import cache from '../../utils/cache';
-import { redis, REDIS_TTL } from '../../main';
-import { Redis } from 'ioredis';
+import { docsUrl, providerRoutes } from '../../utils/docs';
+import { toMovieInfo, toResults, toSourceSet } from '../../utils/normalize';
+import { withProxyPool } from '../../utils/proxypool';
+import {
+  IdRequest,
+  SearchRequest,
+  idSchema,
+  object,
+  page,
+  searchSchema,
+  server,
+  text,
+} from '../../utils/schemas';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
-  const sflix = new MOVIES.SFlix();
+  const sflix = withProxyPool(new MOVIES.SFlix());
 
   fastify.get('/', (_, rp) => {
     rp.status(200).send({
       intro: `Welcome to the sflix provider: check out the provider's website @ ${sflix.toString.baseUrl}`,
-      routes: [
-        '/:query',
-        '/info',
-        '/watch',
-        '/recent-shows',
-        '/recent-movies',
-        '/trending',
-        '/servers',
-        '/country',
-        '/genre',
-      ],
-      documentation: 'https://docs.consumet.org/#tag/sflix',
+      routes: providerRoutes(fastify),
+      documentation: docsUrl(fastify),
     });
   });
 
-  fastify.get('/:query', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = decodeURIComponent((request.params as { query: string }).query);
+  fastify.get(
+    '/:query',
+    { schema: searchSchema, config: { normalize: toResults } },
+    async (request: SearchRequest, reply: FastifyReply) => {
+      const query = decodeURIComponent(request.params.query);
 
-    const page = (request.query as { page: number }).page;
+      const page = request.query.page;
 
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `sflix:${query}:${page}`,
-          async () => await sflix.search(query, page ? page : 1),
-          REDIS_TTL,
-        )
-      : await sflix.search(query, page ? page : 1);
+      let res = await cache.fetch(
+        `sflix:${query}:${page}`,
+        async () => await sflix.search(query, page ? page : 1),
+        cache.policy('sflix', 'search'),
+      );
 
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/recent-shows', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `sflix:recent-shows`,
-          async () => await sflix.fetchRecentTvShows(),
-          REDIS_TTL,
-        )
-      : await sflix.fetchRecentTvShows();
-
-    reply.status(200).send(res);
-  });
+  fastify.get(
+    '/recent-shows',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `sflix:recent-shows`,
+        async () => await sflix.fetchRecentTvShows(),
+        cache.policy('sflix', 'schedule'),
+      );
 
-  fastify.get('/recent-movies', async (request: FastifyRequest, reply: FastifyReply) => {
-    let res = redis
-      ? await cache.fetch(
-          redis as Redis,
-          `sflix:recent-movies`,
-          async () => await sflix.fetchRecentMovies(),
-          REDIS_TTL,
-        )
-      : await sflix.fetchRecentMovies();
-
-    reply.status(200).send(res);
-  });
+      reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
-    const type = (request.query as { type: string }).type;
-    try {
+  fastify.get(
+    '/recent-movies',
+    { config: { normalize: toResults } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let res = await cache.fetch(
+        `sflix:recent-movies`,
+        async () => await sflix.fetchRecentMovies(),
+        cache.policy('sflix', 'schedule'),
+      );
+
+      reply.status(200).send(res);
+    },
+  );
+
+  fastify.get(
+    '/trending',
+    { schema: { querystring: object({ type: text }) }, config: { normalize: toResults } },
+    async (
+      request: FastifyRequest<{ Querystring: { type?: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const type = request.query.type;
       if (!type) {
         const res = {
           results: [
@@ -83,160 +92,144 @@ const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
         return reply.status(200).send(res);
       }
 
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `sflix:trending:${type}`,
-            async () =>
-              type === 'tv'
-                ? await sflix.fetchTrendingTvShows()
-                : await sflix.fetchTrendingMovies(),
-            REDIS_TTL,
-          )
-        : type === 'tv'
-          ? await sflix.fetchTrendingTvShows()
-          : await sflix.fetchTrendingMovies();
+      let res = await cache.fetch(
+        `sflix:trending:${type}`,
+        async () =>
+          type === 'tv'
+            ? await sflix.fetchTrendingTvShows()
+            : await sflix.fetchTrendingMovies(),
+        cache.policy('sflix', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/info', async (request: FastifyRequest, reply: FastifyReply) => {
-    const id = (request.query as { id: string }).id;
+    },
+  );
 
-    if (typeof id === 'undefined')
-      return reply.status(400).send({
-        message: 'id is required',
-      });
+  fastify.get(
+    '/info',
+    { schema: idSchema, config: { normalize: toMovieInfo } },
+    async (request: IdRequest, reply: FastifyReply) => {
+      const id = request.query.id;
 
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `sflix:info:${id}`,
-            async () => await sflix.fetchMediaInfo(id),
-            REDIS_TTL,
-          )
-        : await sflix.fetchMediaInfo(id);
+      let res = await cache.fetch(
+        `sflix:info:${id}`,
+        async () => await sflix.fetchMediaInfo(id),
+        cache.policy('sflix', 'info'),
+      );
 
       reply.status(200).send(res);
-    } catch (err) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
-
-  fastify.get('/watch', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-    const server = (request.query as { server: StreamingServers }).server;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    if (server && !Object.values(StreamingServers).includes(server))
-      return reply.status(400).send({ message: 'Invalid server query' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `sflix:watch:${episodeId}:${mediaId}:${server}`,
-            async () => await sflix.fetchEpisodeSources(episodeId, mediaId, server),
-            REDIS_TTL,
-          )
-        : await sflix.fetchEpisodeSources(episodeId, mediaId, server);
+    },
+  );
 
-      reply.status(200).send(res);
-    } catch (err) {
-      reply
-        .status(500)
-        .send({ message: 'Something went wrong. Please try again later.' });
-    }
-  });
+  fastify.get(
+    '/watch',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text, server }, [
+          'episodeId',
+          'mediaId',
+        ]),
+      },
+      config: { normalize: toSourceSet, expandQualities: true },
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { episodeId: string; mediaId: string; server?: StreamingServers };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+      const server = request.query.server;
+
+      let res = await cache.fetch(
+        `sflix:watch:${episodeId}:${mediaId}:${server}`,
+        async () => await sflix.fetchEpisodeSources(episodeId, mediaId, server),
+        cache.policy('sflix', 'watch'),
+      );
+
+      return reply.status(200).send(res);
+    },
+  );
 
-  fastify.get('/servers', async (request: FastifyRequest, reply: FastifyReply) => {
-    const episodeId = (request.query as { episodeId: string }).episodeId;
-    const mediaId = (request.query as { mediaId: string }).mediaId;
-
-    if (typeof episodeId === 'undefined')
-      return reply.status(400).send({ message: 'episodeId is required' });
-    if (typeof mediaId === 'undefined')
-      return reply.status(400).send({ message: 'mediaId is required' });
-
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `sflix:servers:${episodeId}:${mediaId}`,
-            async () => await sflix.fetchEpisodeServers(episodeId, mediaId),
-            REDIS_TTL,
-          )
-        : await sflix.fetchEpisodeServers(episodeId, mediaId);
+  fastify.get(
+    '/servers',
+    {
+      schema: {
+        querystring: object({ episodeId: text, mediaId: text }, ['episodeId', 'mediaId']),
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { episodeId: string; mediaId: string } }>,
+      reply: FastifyReply,
+    ) => {
+      const episodeId = request.query.episodeId;
+      const mediaId = request.query.mediaId;
+
+      let res = await cache.fetch(
+        `sflix:servers:${episodeId}:${mediaId}`,
+        async () => await sflix.fetchEpisodeServers(episodeId, mediaId),
+        cache.policy('sflix', 'watch'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 
   fastify.get(
     '/country/:country',
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const country = (request.params as { country: string }).country;
-      const page = (request.query as { page: number }).page ?? 1;
-      try {
-        let res = redis
-          ? await cache.fetch(
-              redis as Redis,
-              `sflix:country:${country}:${page}`,
-              async () => await sflix.fetchByCountry(country, page),
-              REDIS_TTL,
-            )
-          : await sflix.fetchByCountry(country, page);
-
-        reply.status(200).send(res);
-      } catch (error) {
-        reply.status(500).send({
-          message:
-            'Something went wrong. Please try again later. or contact the developers.',
-        });
-      }
+    {
+      schema: {
+        params: object({ country: text }, ['country']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { country: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const country = request.params.country;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `sflix:country:${country}:${page}`,
+        async () => await sflix.fetchByCountry(country, page),
+        cache.policy('sflix', 'trending'),
+      );
+
+      reply.status(200).send(res);
     },
   );
 
-  fastify.get('/genre/:genre', async (request: FastifyRequest, reply: FastifyReply) => {
-    const genre = (request.params as { genre: string }).genre;
-    const page = (request.query as { page: number }).page ?? 1;
-    try {
-      let res = redis
-        ? await cache.fetch(
-            redis as Redis,
-            `sflix:genre:${genre}:${page}`,
-            async () => await sflix.fetchByGenre(genre, page),
-            REDIS_TTL,
-          )
-        : await sflix.fetchByGenre(genre, page);
+  fastify.get(
+    '/genre/:genre',
+    {
+      schema: {
+        params: object({ genre: text }, ['genre']),
+        querystring: object({ page }),
+      },
+      config: { normalize: toResults },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { genre: string };
+        Querystring: { page?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const genre = request.params.genre;
+      const page = request.query.page ?? 1;
+      let res = await cache.fetch(
+        `sflix:genre:${genre}:${page}`,
+        async () => await sflix.fetchByGenre(genre, page),
+        cache.policy('sflix', 'trending'),
+      );
 
       reply.status(200).send(res);
-    } catch (error) {
-      reply.status(500).send({
-        message:
-          'Something went wrong. Please try again later. or contact the developers.',
-      });
-    }
-  });
+    },
+  );
 };
 export default routes;
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyRequest, FastifyReply } from 'fastify';
+
+import { adminKey } from '../main';
+import { Unauthorized, Unavailable } from './errors';
+
+/**
+ * `preHandler` for admin-only routes. The key is sent in the `x-admin-key` header and
+ * admin routes stay disabled until `ADMIN_KEY` is set.
+ */
+export const requireAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (!adminKey)
+    throw new Unavailable('Admin routes are disabled. Set ADMIN_KEY to enable them.');
+
+  const provided = Buffer.from(String(request.headers['x-admin-key'] ?? ''));
+  const expected = Buffer.from(adminKey);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected))
+    throw new Unauthorized('Invalid or missing x-admin-key header');
+};
@@ -0,0 +1,212 @@
+import { FastifyInstance } from 'fastify';
+
+import { internalRequestHeaders } from './internal';
+
+// anime providers exposing a `/:query` search route, in the order results are merged
+export const ANIME_SEARCH_PROVIDERS = [
+  'hianime',
+  'animekai',
+  'animepahe',
+  'animeunity',
+  'animesaturn',
+  'kickassanime',
+  'animeyy',
+  'anizone',
+  'allmanga',
+] as const;
+
+export type AnimeSearchProvider = (typeof ANIME_SEARCH_PROVIDERS)[number];
+
+export interface AggregatedResult {
+  provider: AnimeSearchProvider;
+  id: string;
+  title: string;
+  url?: string;
+  image?: string;
+  type?: string;
+  releaseDate?: string;
+}
+
+export interface ProviderFailure {
+  provider: AnimeSearchProvider;
+  reason: 'timeout' | 'error';
+  message: string;
+}
+
+/**
+ * Lowercases a title and strips accents and punctuation, so `Frieren: Beyond Journey's
+ * End` and `Frieren - Beyond Journeys End` compare equal across providers. Letters and
+ * digits of every script are kept, so native titles don't normalize to nothing.
+ */
+export const normalizeTitle = (title: string) =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/['’`]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const bigrams = (value: string) => {
+  const compact = value.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+
+  return pairs;
+};
+
+/**
+ * Dice coefficient of the normalized titles' bigrams: 1 for identical titles, 0 for
+ * titles sharing nothing. A title with nothing left once normalized matches nothing.
+ */
+export const titleSimilarity = (one: string, two: string) => {
+  const a = normalizeTitle(one);
+  const b = normalizeTitle(two);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.length === 0 || second.length === 0) return 0;
+
+  const remaining = [...second];
+  let matches = 0;
+  for (const pair of first) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return (2 * matches) / (first.length + second.length);
+};
+
+const toResult = (provider: AnimeSearchProvider, item: any): AggregatedResult | null => {
+  const title =
+    typeof item?.title === 'string'
+      ? item.title
+      : (item?.title?.english ?? item?.title?.romaji ?? item?.title?.userPreferred);
+
+  if (!item?.id || !title) return null;
+
+  return {
+    provider,
+    id: String(item.id),
+    title: title.trim(),
+    url: item.url ?? undefined,
+    image: item.image ?? undefined,
+    type: item.type ?? undefined,
+    releaseDate: item.releaseDate ? String(item.releaseDate) : undefined,
+  };
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+
+/**
+ * Runs the `/:query` route of every given provider in parallel through `fastify.inject`,
+ * so each provider keeps its own caching and error handling.
+ */
+export const searchProviders = async (
+  fastify: FastifyInstance,
+  query: string,
+  providers: readonly AnimeSearchProvider[],
+  { page = 1, timeout = 8000 }: { page?: number; timeout?: number } = {},
+) => {
+  const results: AggregatedResult[] = [];
+  const failed: ProviderFailure[] = [];
+
+  const settled = await Promise.allSettled(
+    providers.map((provider) =>
+      withTimeout(
+        fastify.inject({
+          method: 'GET',
+          url: `/anime/${provider}/${encodeURIComponent(query)}?page=${page}`,
+          headers: internalRequestHeaders,
+        }),
+        timeout,
+      ),
+    ),
+  );
+
+  settled.forEach((outcome, i) => {
+    const provider = providers[i];
+
+    if (outcome.status === 'rejected') {
+      return failed.push({
+        provider,
+        reason: /timed out/i.test(outcome.reason?.message) ? 'timeout' : 'error',
+        message: outcome.reason?.message ?? 'Unknown error',
+      });
+    }
+
+    const response = outcome.value;
+    if (response.statusCode !== 200) {
+      let message = `Responded with ${response.statusCode}`;
+      try {
+        message = response.json().message ?? message;
+      } catch {}
+
+      return failed.push({ provider, reason: 'error', message });
+    }
+
+    const items: any[] = response.json()?.results ?? [];
+    for (const item of items) {
+      const result = toResult(provider, item);
+      if (result) results.push(result);
+    }
+  });
+
+  return { results, failed };
+};
+
+/**
+ * Merges results sharing the same normalized title (and release year, when both sides
+ * have one) into a single entry listing every provider that carries it. Titles that
+ * normalize to nothing are never merged, nor are two results of the same provider.
+ */
+export const dedupeResults = (results: AggregatedResult[]) => {
+  const merged: {
+    title: string;
+    year?: string;
+    entry: Omit<AggregatedResult, 'provider' | 'id' | 'url'> & {
+      sources: Pick<AggregatedResult, 'provider' | 'id' | 'url'>[];
+    };
+  }[] = [];
+
+  for (const { provider, id, url, ...rest } of results) {
+    const year = rest.releaseDate?.match(/\d{4}/)?.[0];
+    const title = normalizeTitle(rest.title);
+    const match = title
+      ? merged.find(
+          (existing) =>
+            existing.title === title &&
+            (!year || !existing.year || existing.year === year) &&
+            !existing.entry.sources.some((source) => source.provider === provider),
+        )
+      : undefined;
+
+    const entry = match?.entry ?? { ...rest, sources: [] };
+    entry.image ??= rest.image;
+    entry.type ??= rest.type;
+    entry.releaseDate ??= rest.releaseDate;
+    entry.sources.push({ provider, id, url });
+
+    if (!match) merged.push({ title, year, entry });
+  }
+
+  return merged.map(({ entry }) => entry);
+};
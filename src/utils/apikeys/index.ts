@@ -0,0 +1,171 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+
+import { Forbidden, RateLimited, Unauthorized } from '../errors';
+import { isInternalRequest } from '../internal';
+import { ApiKey, getApiKeyStore } from './store';
+
+// `/utils/proxy` links are signed by the watch routes, admin routes check `x-admin-key`
+const PUBLIC_ROUTES = [
+  '/apidemo',
+  '/docs',
+  '/utils/proxy',
+  '/utils/keys',
+  '/utils/cache',
+  '/utils/health',
+  '/metrics',
+];
+
+const hash = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const createApiKey = async ({
+  name,
+  expiresIn,
+  rateLimit,
+  dailyQuota,
+  routes,
+}: {
+  name: string;
+  // seconds
+  expiresIn?: number;
+  rateLimit?: number;
+  dailyQuota?: number;
+  routes?: string[];
+}) => {
+  const id = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  const record: ApiKey = {
+    id,
+    name,
+    secretHash: hash(secret),
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresIn
+      ? new Date(Date.now() + expiresIn * 1000).toISOString()
+      : undefined,
+    rateLimit,
+    dailyQuota,
+    routes,
+  };
+
+  await getApiKeyStore().save(record);
+  return { key: `ck_${id}_${secret}`, record };
+};
+
+// counts the demo keys handed to one address within `window` seconds
+export const countDemoKeys = (ip: string, window: number) =>
+  getApiKeyStore().increment(`demo:${ip}`, window);
+
+// the id part of a `ck_<id>_<secret>` key, which is not secret
+export const apiKeyId = (key: string) => key.match(/^ck_([a-f0-9]{12})_/)?.[1];
+
+// resolves a `ck_<id>_<secret>` key to its record, unless it is unknown, revoked or expired
+export const verifyApiKey = async (key: string) => {
+  const [, id, secret] = key.match(/^ck_([a-f0-9]{12})_(.+)$/) ?? [];
+  if (!id) return null;
+
+  const record = await getApiKeyStore().get(id);
+  if (!record || record.revokedAt) return null;
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) return null;
+
+  const expected = Buffer.from(record.secretHash);
+  const actual = Buffer.from(hash(secret));
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+    ? record
+    : null;
+};
+
+export const revokeApiKey = async (id: string) => {
+  const store = getApiKeyStore();
+  const record = await store.get(id);
+  if (!record) return null;
+
+  record.revokedAt ??= new Date().toISOString();
+  await store.save(record);
+  return record;
+};
+
+// the record without its secret hash, plus today's usage
+export const describeApiKey = async ({ secretHash, ...record }: ApiKey) => ({
+  ...record,
+  usage: { today: await getApiKeyStore().usage(`${record.id}:day:${today()}`) },
+});
+
+/**
+ * Reads the key from the `x-api-key` header, the `api_key` query parameter or, for the
+ * demo page, the `api_key` cookie.
+ */
+export const readApiKey = (request: FastifyRequest) =>
+  (request.headers['x-api-key'] as string | undefined) ??
+  (request.query as { api_key?: string }).api_key ??
+  request.headers.cookie?.match(/(?:^|;\s*)api_key=([^;]+)/)?.[1];
+
+// counts a request against the key, returning the wait in seconds when it is over a limit
+const consume = async (key: ApiKey) => {
+  const store = getApiKeyStore();
+  const now = Date.now();
+
+  if (key.rateLimit) {
+    const minute = Math.floor(now / 60000);
+    const count = await store.increment(`${key.id}:minute:${minute}`, 60);
+    if (count > key.rateLimit)
+      return {
+        message: `Rate limit of ${key.rateLimit} requests per minute exceeded`,
+        retryAfter: 60 - Math.floor((now / 1000) % 60),
+      };
+  }
+
+  const count = await store.increment(`${key.id}:day:${today()}`, 60 * 60 * 24);
+  if (key.dailyQuota && count > key.dailyQuota)
+    return {
+      message: `Daily quota of ${key.dailyQuota} requests exceeded`,
+      retryAfter: Math.ceil((86400000 - (now % 86400000)) / 1000),
+    };
+
+  return null;
+};
+
+/**
+ * Validates the API key of every request. Without one, requests pass unless `required`
+ * is set, in which case they get a 401 (or, with `redirect`, are sent to the demo page).
+ */
+export const registerApiKeyAuth = (
+  fastify: FastifyInstance,
+  { required, redirect }: { required: boolean; redirect?: string },
+) => {
+  fastify.addHook('onRequest', async (request, reply) => {
+    const path = request.url.split('?')[0];
+    if (
+      path === '/' ||
+      PUBLIC_ROUTES.some((route) => path === route || path.startsWith(route + '/')) ||
+      isInternalRequest(request)
+    )
+      return;
+
+    const provided = readApiKey(request);
+    if (!provided) {
+      if (!required) return;
+      if (redirect) return reply.redirect(redirect);
+
+      throw new Unauthorized(
+        'API key required. Send it in the x-api-key header or api_key parameter.',
+      );
+    }
+
+    const key = await verifyApiKey(provided);
+    if (!key) throw new Unauthorized('Invalid, expired or revoked API key');
+
+    if (
+      key.routes &&
+      !key.routes.some((route) => path === route || path.startsWith(route + '/'))
+    )
+      throw new Forbidden(`This API key is limited to: ${key.routes.join(', ')}`);
+
+    const limited = await consume(key);
+    if (limited) {
+      reply.header('retry-after', limited.retryAfter);
+      throw new RateLimited(limited.message);
+    }
+  });
+};
@@ -0,0 +1,88 @@
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+
+import { createApiKey, describeApiKey, revokeApiKey } from '.';
+import { getApiKeyStore } from './store';
+import { requireAdmin } from '../admin';
+import { InvalidInput, NotFound } from '../errors';
+import { object, positive, text } from '../schemas';
+
+type CreateRequest = FastifyRequest<{
+  Body: {
+    name: string;
+    expiresIn?: number;
+    rateLimit?: number;
+    dailyQuota?: number;
+    routes?: string[];
+  };
+}>;
+
+type KeyRequest = FastifyRequest<{ Params: { id: string } }>;
+
+const createSchema = {
+  body: object(
+    {
+      name: text,
+      expiresIn: positive,
+      rateLimit: positive,
+      dailyQuota: positive,
+      // e.g. ["/anime/hianime"]
+      routes: { type: 'array', items: { type: 'string', pattern: '^/\\S*$' } },
+    },
+    ['name'],
+  ),
+};
+const keySchema = { params: object({ id: text }, ['id']) };
+
+export default class ApiKeyAdmin {
+  public getApiKeyAdmin = async (fastify: FastifyInstance, options: RegisterOptions) => {
+    fastify.addHook('preHandler', requireAdmin);
+
+    // the key is only returned here, store it right away
+    fastify.post(
+      '/keys',
+      { schema: createSchema },
+      async (request: CreateRequest, reply: FastifyReply) => {
+        const { name, expiresIn, rateLimit, dailyQuota, routes } = request.body;
+
+        if (!name.trim()) throw new InvalidInput('name is required');
+
+        const { key, record } = await createApiKey({
+          name: name.trim(),
+          expiresIn,
+          rateLimit,
+          dailyQuota,
+          routes,
+        });
+
+        reply.status(201).send({ key, ...(await describeApiKey(record)) });
+      },
+    );
+
+    fastify.get('/keys', async (request: FastifyRequest, reply: FastifyReply) => {
+      const keys = await getApiKeyStore().list();
+      reply.status(200).send(await Promise.all(keys.map(describeApiKey)));
+    });
+
+    fastify.get(
+      '/keys/:id',
+      { schema: keySchema },
+      async (request: KeyRequest, reply: FastifyReply) => {
+        const record = await getApiKeyStore().get(request.params.id);
+        if (!record) throw new NotFound('API key not found');
+
+        reply.status(200).send(await describeApiKey(record));
+      },
+    );
+
+    fastify.delete(
+      '/keys/:id',
+      { schema: keySchema },
+      async (request: KeyRequest, reply: FastifyReply) => {
+        const record = await revokeApiKey(request.params.id);
+        if (!record) throw new NotFound('API key not found');
+
+        reply.status(200).send(await describeApiKey(record));
+      },
+    );
+  };
+}
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import { Redis } from 'ioredis';
+
+import { redis } from '../../main';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // sha256 of the secret part, the key itself is only shown when it is created
+  secretHash: string;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+  // requests per minute
+  rateLimit?: number;
+  // requests per UTC day
+  dailyQuota?: number;
+  // route prefixes the key may call, e.g. `/anime/hianime`; every route when absent
+  routes?: string[];
+}
+
+interface ApiKeyStore {
+  get(id: string): Promise<ApiKey | null>;
+  list(): Promise<ApiKey[]>;
+  save(key: ApiKey): Promise<void>;
+  // increments a usage counter and returns its new value
+  increment(counter: string, ttl: number): Promise<number>;
+  usage(counter: string): Promise<number>;
+}
+
+class RedisApiKeyStore implements ApiKeyStore {
+  constructor(private readonly client: Redis) {}
+
+  async get(id: string) {
+    const value = await this.client.get(`apikeys:key:${id}`);
+    return value === null ? null : (JSON.parse(value) as ApiKey);
+  }
+
+  async list() {
+    const ids = await this.client.smembers('apikeys:ids');
+    const keys = await Promise.all(ids.map((id) => this.get(id)));
+
+    // ids of keys that expired out of Redis are cleaned up here
+    const expired = ids.filter((_, i) => keys[i] === null);
+    if (expired.length > 0) await this.client.srem('apikeys:ids', ...expired);
+
+    return keys.filter((key): key is ApiKey => key !== null);
+  }
+
+  async save(key: ApiKey) {
+    const pipeline = this.client.multi();
+    if (key.expiresAt)
+      pipeline.set(
+        `apikeys:key:${key.id}`,
+        JSON.stringify(key),
+        'PX',
+        Math.max(1, new Date(key.expiresAt).getTime() - Date.now()),
+      );
+    else pipeline.set(`apikeys:key:${key.id}`, JSON.stringify(key));
+
+    await pipeline.sadd('apikeys:ids', key.id).exec();
+  }
+
+  async increment(counter: string, ttl: number) {
+    const value = await this.client.incr(`apikeys:usage:${counter}`);
+    if (value === 1) await this.client.expire(`apikeys:usage:${counter}`, ttl);
+
+    return value;
+  }
+
+  async usage(counter: string) {
+    return Number(await this.client.get(`apikeys:usage:${counter}`)) || 0;
+  }
+}
+
+/**
+ * Keeps keys in memory and, when `API_KEYS_FILE` is set, mirrors them to a JSON file so
+ * they survive restarts on instances without Redis. Usage counters stay in memory.
+ */
+class LocalApiKeyStore implements ApiKeyStore {
+  private keys: Record<string, ApiKey> = {};
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  constructor(private readonly file?: string) {
+    if (file && fs.existsSync(file))
+      this.keys = JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  async get(id: string) {
+    return this.keys[id] ?? null;
+  }
+
+  async list() {
+    return Object.values(this.keys);
+  }
+
+  async save(key: ApiKey) {
+    this.keys[key.id] = key;
+    for (const { id, expiresAt } of Object.values(this.keys))
+      if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) delete this.keys[id];
+
+    if (this.file) await fs.promises.writeFile(this.file, JSON.stringify(this.keys));
+  }
+
+  async increment(counter: string, ttl: number) {
+    const now = Date.now();
+    const existing = this.counters.get(counter);
+    const entry =
+      existing && existing.expiresAt > now
+        ? existing
+        : { value: 0, expiresAt: now + ttl * 1000 };
+
+    entry.value++;
+    this.counters.set(counter, entry);
+
+    // expired counters are dropped while incrementing, so the map stays small
+    if (this.counters.size > 10000)
+      for (const [name, { expiresAt }] of this.counters)
+        if (expiresAt <= now) this.counters.delete(name);
+
+    return entry.value;
+  }
+
+  async usage(counter: string) {
+    const entry = this.counters.get(counter);
+    return entry && entry.expiresAt > Date.now() ? entry.value : 0;
+  }
+}
+
+let store: ApiKeyStore | undefined;
+
+// created lazily, since `redis` is only available once main.ts has been evaluated
+export const getApiKeyStore = () => {
+  store ??= redis
+    ? new RedisApiKeyStore(redis as Redis)
+    : new LocalApiKeyStore(process.env.API_KEYS_FILE);
+
+  return store;
+};
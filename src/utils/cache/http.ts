@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+
+import { isInternalRequest } from '../internal';
+
+interface CacheUsage {
+  storedAt: number;
+  staleAt: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+}
+
+interface RequestCache {
+  usages: CacheUsage[];
+  bypass: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestCache>();
+
+export const trackCacheUsage = (usage: CacheUsage) => {
+  storage.getStore()?.usages.push(usage);
+};
+
+// true for internal requests sent with `cache-control: no-cache`, like the health probes
+export const isCacheBypassed = () => storage.getStore()?.bypass ?? false;
+
+/**
+ * Adds `Cache-Control`, `Age` and `ETag` headers to responses built from cached entries,
+ * and answers a matching `If-None-Match` with a 304. Responses are marked `private`
+ * unless `shared`, so CDNs don't hand them to clients without an API key.
+ */
+export const registerCacheHeaders = (
+  fastify: FastifyInstance,
+  { shared }: { shared: boolean } = { shared: true },
+) => {
+  const usages = new WeakMap<FastifyRequest, CacheUsage[]>();
+
+  fastify.addHook('onRequest', (request, reply, done) => {
+    const store: RequestCache = {
+      usages: [],
+      bypass:
+        isInternalRequest(request) && request.headers['cache-control'] === 'no-cache',
+    };
+    usages.set(request, store.usages);
+    storage.run(store, done);
+  });
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const store = usages.get(request);
+    if (
+      !store?.length ||
+      request.method !== 'GET' ||
+      reply.statusCode !== 200 ||
+      reply.hasHeader('cache-control')
+    )
+      return payload;
+
+    // a response is only as fresh as the oldest entry it was built from
+    const now = Date.now();
+    const storedAt = Math.min(...store.map((usage) => usage.storedAt));
+    const staleAt = Math.min(...store.map((usage) => usage.staleAt));
+    const staleWhileRevalidate = Math.min(
+      ...store.map((usage) => usage.staleWhileRevalidate),
+    );
+    const staleIfError = Math.min(...store.map((usage) => usage.staleIfError));
+
+    reply.header(
+      'cache-control',
+      `${shared ? 'public' : 'private'}, max-age=${Math.max(0, Math.floor((staleAt - now) / 1000))}, ` +
+        `stale-while-revalidate=${staleWhileRevalidate}, stale-if-error=${staleIfError}`,
+    );
+    reply.header('age', Math.max(0, Math.floor((now - storedAt) / 1000)));
+
+    if (typeof payload !== 'string' && !Buffer.isBuffer(payload)) return payload;
+
+    const etag = `W/"${createHash('sha1').update(payload).digest('base64url')}"`;
+    reply.header('etag', etag);
+    if (request.headers['if-none-match'] === etag) {
+      reply.code(304);
+      return '';
+    }
+
+    return payload;
+  });
+};
@@ -0,0 +1,299 @@
+import { Redis } from 'ioredis';
+import chalk from 'chalk';
+
+import MemoryCache from './memory';
+import RedisCache from './redis';
+import SqliteCache from './sqlite';
+import { isCacheBypassed, trackCacheUsage } from './http';
+import { CachePolicy, resolvePolicy } from './policy';
+import { CacheBackend } from './types';
+import { recordCacheError, recordCacheLookup } from '../metrics';
+
+let backend: CacheBackend = new MemoryCache();
+
+const use = (next: CacheBackend) => {
+  backend = next;
+};
+
+/**
+ * Picks the backend from `CACHE_BACKEND` (`redis`, `memory` or `sqlite`). Without it,
+ * Redis is used when configured and the in-memory LRU otherwise.
+ */
+const createBackend = (redis?: Redis | '' | undefined): CacheBackend => {
+  const type = process.env.CACHE_BACKEND ?? (redis ? 'redis' : 'memory');
+
+  switch (type) {
+    case 'redis':
+      if (redis) return new RedisCache(redis);
+      console.warn(
+        chalk.yellowBright('CACHE_BACKEND is redis but REDIS_HOST is not set.'),
+      );
+      break;
+    case 'sqlite':
+      try {
+        return new SqliteCache(process.env.CACHE_SQLITE_FILE || 'cache.sqlite');
+      } catch (err) {
+        console.warn(
+          chalk.yellowBright(
+            'Could not open the sqlite cache (is better-sqlite3 installed?).',
+          ),
+        );
+      }
+      break;
+    case 'memory':
+      break;
+    default:
+      console.warn(chalk.yellowBright(`Unknown CACHE_BACKEND "${type}".`));
+  }
+
+  return new MemoryCache(
+    Number(process.env.CACHE_MAX_ENTRIES) || undefined,
+    Number(process.env.CACHE_MAX_MB) * 1024 * 1024 || undefined,
+  );
+};
+
+interface Envelope<T> {
+  value: T;
+  storedAt: number;
+  staleAt: number;
+}
+
+// refreshes currently running, so concurrent misses on a key share one upstream scrape
+const inflight = new Map<string, Promise<any>>();
+
+// since startup, for `/utils/cache/stats`; `/metrics` has the same counts per provider
+const counters = { hits: 0, stale: 0, misses: 0, errors: 0 };
+
+const envSeconds = (name: string, fallback: number) =>
+  process.env[name] ? Number(process.env[name]) : fallback;
+
+// stale windows default to an extra hour of background refreshes and a day of outage cover
+const toPolicy = (policy: number | CachePolicy): Required<CachePolicy> => {
+  const {
+    ttl,
+    staleWhileRevalidate,
+    staleIfError,
+    negativeTtl,
+    cacheable,
+    notFound,
+  }: CachePolicy = typeof policy === 'number' ? { ttl: policy } : policy;
+
+  return {
+    ttl,
+    staleWhileRevalidate: staleWhileRevalidate ?? envSeconds('CACHE_STALE_TTL', 60 * 60),
+    staleIfError: staleIfError ?? envSeconds('CACHE_STALE_IF_ERROR', 60 * 60 * 24),
+    negativeTtl: negativeTtl ?? envSeconds('CACHE_NEGATIVE_TTL', 60),
+    cacheable: cacheable ?? (() => true),
+    notFound: notFound ?? (() => false),
+  };
+};
+
+const read = async <T>(key: string): Promise<Envelope<T> | null> => {
+  const raw = await backend.get(key);
+  if (raw === null) return null;
+
+  const parsed = JSON.parse(raw);
+  // entries written before values were wrapped are treated as fresh
+  if (parsed && typeof parsed === 'object' && 'staleAt' in parsed && 'value' in parsed)
+    return parsed;
+
+  return { value: parsed, storedAt: Date.now(), staleAt: Infinity };
+};
+
+const store = async <T>(
+  key: string,
+  fetcher: () => T | Promise<T>,
+  policy: Required<CachePolicy>,
+) => {
+  const value = await fetcher();
+  const storedAt = Date.now();
+
+  // returned without a lifetime, so it is neither stored nor preferred over a stale entry
+  if (!policy.cacheable(value)) {
+    console.log(`SKIP: ${key}, result is not cacheable`);
+    return { value, storedAt, staleAt: storedAt };
+  }
+
+  if (policy.notFound(value)) {
+    console.log(`SET: ${key}, EXP: ${policy.negativeTtl} (not found)`);
+    const envelope = { value, storedAt, staleAt: storedAt + policy.negativeTtl * 1000 };
+    await backend.set(key, JSON.stringify(envelope), policy.negativeTtl);
+    return envelope;
+  }
+
+  console.log(`SET: ${key}, EXP: ${policy.ttl}`);
+  const envelope = { value, storedAt, staleAt: storedAt + policy.ttl * 1000 };
+
+  // kept past the ttl for as long as either stale window may still serve it
+  await backend.set(
+    key,
+    JSON.stringify(envelope),
+    policy.ttl + Math.max(policy.staleWhileRevalidate, policy.staleIfError),
+  );
+  return envelope;
+};
+
+const refresh = <T>(
+  key: string,
+  fetcher: () => T | Promise<T>,
+  policy: Required<CachePolicy>,
+): Promise<Envelope<T>> => {
+  const running = inflight.get(key);
+  if (running) return running;
+
+  const promise = store(key, fetcher, policy)
+    .catch((err) => {
+      counters.errors++;
+      recordCacheError(key);
+      throw err;
+    })
+    .finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+};
+
+// reports the entry behind the current response, for its cache-control headers
+const served = <T>(entry: Envelope<T>, policy: Required<CachePolicy>) => {
+  if (Number.isFinite(entry.staleAt) && entry.staleAt > entry.storedAt)
+    trackCacheUsage({
+      storedAt: entry.storedAt,
+      staleAt: entry.staleAt,
+      staleWhileRevalidate: policy.staleWhileRevalidate,
+      staleIfError: policy.staleIfError,
+    });
+
+  return entry.value;
+};
+
+/**
+ * Returns the cached value for `key`, calling `fetcher` on a miss. `policy` is either a
+ * ttl in seconds or a policy from `cache.policy(provider, type)`. Once the ttl has
+ * passed, the stale value keeps being served while a single background refresh runs
+ * (`staleWhileRevalidate`), or in place of the error if the refresh fails
+ * (`staleIfError`). Both windows default to `CACHE_STALE_TTL` and `CACHE_STALE_IF_ERROR`.
+ * Internal requests sent with `cache-control: no-cache` skip the lookup.
+ */
+const fetch = async <T>(
+  key: string,
+  fetcher: () => T | Promise<T>,
+  policy: number | CachePolicy,
+): Promise<T> => {
+  const resolved = toPolicy(policy);
+
+  // the upstream's current answer is returned, and still refreshes the entry
+  if (isCacheBypassed()) {
+    counters.misses++;
+    recordCacheLookup(key, 'miss');
+    return served(await refresh(key, fetcher, resolved), resolved);
+  }
+
+  console.log('GET: ' + key);
+  const existing = await read<T>(key);
+  if (!existing) {
+    counters.misses++;
+    recordCacheLookup(key, 'miss');
+    return served(await refresh(key, fetcher, resolved), resolved);
+  }
+
+  const now = Date.now();
+  if (now < existing.staleAt) {
+    counters.hits++;
+    recordCacheLookup(key, 'hit');
+    return served(existing, resolved);
+  }
+
+  const update = refresh(key, fetcher, resolved);
+
+  if (now < existing.staleAt + resolved.staleWhileRevalidate * 1000) {
+    update.catch((err) =>
+      console.warn(`Background refresh of ${key} failed: ${err?.message ?? err}`),
+    );
+    counters.stale++;
+    recordCacheLookup(key, 'stale');
+    return served(existing, resolved);
+  }
+
+  try {
+    counters.misses++;
+    recordCacheLookup(key, 'miss');
+    const entry = await update;
+
+    // an uncacheable refresh (e.g. a blocked scrape) is handled like a failed one
+    if (
+      entry.staleAt === entry.storedAt &&
+      now < existing.staleAt + resolved.staleIfError * 1000
+    ) {
+      counters.stale++;
+      recordCacheLookup(key, 'stale');
+      return served(existing, resolved);
+    }
+
+    return served(entry, resolved);
+  } catch (err) {
+    if (now < existing.staleAt + resolved.staleIfError * 1000) {
+      counters.stale++;
+      recordCacheLookup(key, 'stale');
+      return served(existing, resolved);
+    }
+    throw err;
+  }
+};
+
+const get = async <T>(key: string): Promise<T> => {
+  console.log('GET: ' + key);
+  const existing = await read<T>(key);
+
+  return existing === null ? (null as any) : existing.value;
+};
+
+const set = async <T>(
+  key: string,
+  fetcher: () => T | Promise<T>,
+  policy: number | CachePolicy,
+) => (await store(key, fetcher, toPolicy(policy))).value;
+
+const del = async (key: string) => {
+  await backend.del(key);
+};
+
+const keys = (prefix: string = '') => backend.keys(prefix);
+
+// deletes every key starting with `prefix` and returns how many there were
+const purge = async (prefix: string) => {
+  const matching = await backend.keys(prefix);
+  for (const key of matching) await backend.del(key);
+
+  return matching.length;
+};
+
+const stats = async () => {
+  const { hits, stale, misses, errors } = counters;
+  const lookups = hits + stale + misses;
+
+  return {
+    backend: backend.name,
+    hits,
+    stale,
+    misses,
+    errors,
+    // stale responses are served from the cache, so they count as hits
+    hitRatio: lookups ? Number(((hits + stale) / lookups).toFixed(3)) : null,
+    ...(await backend.stats()),
+  };
+};
+
+export type { CacheBackend, CachePolicy };
+export { registerCacheHeaders } from './http';
+export default {
+  use,
+  createBackend,
+  policy: resolvePolicy,
+  fetch,
+  set,
+  get,
+  del,
+  keys,
+  purge,
+  stats,
+  backend: () => backend,
+};
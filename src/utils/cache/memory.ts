@@ -0,0 +1,72 @@
+import { CacheBackend } from './types';
+
+interface Entry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process LRU cache. A `Map` keeps insertion order, so re-inserting an entry on every
+ * read moves it to the end and the first key is always the least recently used.
+ */
+export default class MemoryCache implements CacheBackend {
+  public readonly name = 'memory';
+
+  private entries = new Map<string, Entry>();
+  private size = 0;
+
+  constructor(
+    private readonly maxEntries: number = 5000,
+    // approximate, counts two bytes per character
+    private readonly maxBytes: number = 64 * 1024 * 1024,
+  ) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttl: number) {
+    this.remove(key);
+    if (value.length * 2 > this.maxBytes) return;
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    this.size += value.length * 2;
+
+    while (this.entries.size > this.maxEntries || this.size > this.maxBytes)
+      this.remove(this.entries.keys().next().value as string);
+  }
+
+  async del(key: string) {
+    this.remove(key);
+  }
+
+  async keys(prefix: string) {
+    const now = Date.now();
+
+    return [...this.entries]
+      .filter(([key, entry]) => key.startsWith(prefix) && entry.expiresAt > now)
+      .map(([key]) => key);
+  }
+
+  async stats() {
+    return { keys: this.entries.size, bytes: this.size };
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    this.size -= entry.value.length * 2;
+  }
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+
+import { REDIS_TTL } from '../../main';
+
+export type RouteType = 'search' | 'info' | 'watch' | 'schedule' | 'trending';
+
+export interface CachePolicy {
+  // seconds the entry is fresh
+  ttl: number;
+  // seconds past `ttl` during which the stale value is served while it refreshes
+  staleWhileRevalidate?: number;
+  // seconds past `ttl` during which the stale value is served if the refresh throws
+  staleIfError?: number;
+  // seconds a result matching `notFound` is cached for, instead of `ttl`
+  negativeTtl?: number;
+  // false for results that must not be cached at all, like the empty sources of a
+  // blocked scrape
+  cacheable?: (value: any) => boolean;
+  // true for a genuine "not found" result, cached for `negativeTtl` only
+  notFound?: (value: any) => boolean;
+}
+
+// null, undefined, `{}` or `[]`
+const isEmpty = (value: any) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'object' && Object.keys(value).length === 0);
+
+// watch routes return `{ sources }`, server and manga page routes a plain list
+const hasSources = (value: any) =>
+  Array.isArray(value?.sources) ? value.sources.length > 0 : !isEmpty(value);
+
+const hasNoResults = (value: any) =>
+  Array.isArray(value?.results) && value.results.length === 0;
+
+/**
+ * Defaults per route type, refined per provider with `<provider>:<type>` entries. Stream
+ * links expire upstream, so watch responses are kept briefly and never served stale
+ * for long.
+ */
+const DEFAULT_POLICIES: Record<string, Partial<CachePolicy>> = {
+  search: { notFound: hasNoResults },
+  info: {},
+  watch: {
+    ttl: 60 * 10,
+    staleWhileRevalidate: 0,
+    staleIfError: 60 * 30,
+    cacheable: hasSources,
+  },
+  schedule: { ttl: 60 * 30 },
+  trending: { ttl: 60 * 60 },
+  // airing shows gain episodes during the week, so the episode list is refreshed often
+  'anilist:info': { ttl: 60 * 30 },
+};
+
+// the fields overrides may set; validators are functions, so they stay the ones in code
+const OVERRIDABLE = [
+  'ttl',
+  'staleWhileRevalidate',
+  'staleIfError',
+  'negativeTtl',
+] as const;
+
+const isOverridable = (field: string): field is (typeof OVERRIDABLE)[number] =>
+  (OVERRIDABLE as readonly string[]).includes(field);
+
+const readOverrides = (): Record<string, unknown> => {
+  try {
+    if (process.env.CACHE_POLICIES) return JSON.parse(process.env.CACHE_POLICIES);
+    if (process.env.CACHE_POLICIES_FILE)
+      return JSON.parse(fs.readFileSync(process.env.CACHE_POLICIES_FILE, 'utf8'));
+  } catch (err: any) {
+    console.warn(`Could not read cache policy overrides: ${err.message}`);
+  }
+
+  return {};
+};
+
+// keeps the non-negative numbers of the overridable fields and warns about the rest
+const loadOverrides = (): Record<string, Partial<CachePolicy>> => {
+  const loaded: Record<string, Partial<CachePolicy>> = {};
+
+  for (const [name, policy] of Object.entries(readOverrides() ?? {})) {
+    if (!policy || typeof policy !== 'object') {
+      console.warn(`Ignoring cache policy override ${name}: not an object`);
+      continue;
+    }
+
+    loaded[name] = {};
+    for (const [field, value] of Object.entries(policy))
+      if (isOverridable(field) && typeof value === 'number' && value >= 0)
+        loaded[name][field] = value;
+      else
+        console.warn(
+          `Ignoring ${name}.${field} of the cache policy overrides: only ${OVERRIDABLE.join(', ')} can be set, to a number of seconds`,
+        );
+  }
+
+  return loaded;
+};
+
+let overrides: Record<string, Partial<CachePolicy>> | undefined;
+
+/**
+ * Resolves the policy of a route from, in increasing priority, `REDIS_TTL`, the type
+ * default, the provider default and the same two levels of `CACHE_POLICIES` (a JSON
+ * object, or a JSON file through `CACHE_POLICIES_FILE`). Validators can only be set in
+ * code, by spreading the resolved policy at the call site.
+ */
+export const resolvePolicy = (provider: string, type: RouteType): CachePolicy => {
+  overrides ??= loadOverrides();
+
+  return {
+    ttl: REDIS_TTL,
+    cacheable: (value) => !isEmpty(value),
+    ...DEFAULT_POLICIES[type],
+    ...DEFAULT_POLICIES[`${provider}:${type}`],
+    ...overrides[type],
+    ...overrides[`${provider}:${type}`],
+  };
+};
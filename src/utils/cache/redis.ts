@@ -0,0 +1,55 @@
+import { Redis } from 'ioredis';
+
+import { CacheBackend } from './types';
+
+// keeps cache entries apart from other data sharing the instance, like `mappings:*`
+const NAMESPACE = 'cache:';
+
+export default class RedisCache implements CacheBackend {
+  public readonly name = 'redis';
+
+  constructor(private readonly client: Redis) {}
+
+  async get(key: string) {
+    return this.client.get(NAMESPACE + key);
+  }
+
+  async set(key: string, value: string, ttl: number) {
+    await this.client.set(NAMESPACE + key, value, 'EX', ttl);
+  }
+
+  async del(key: string) {
+    await this.client.del(NAMESPACE + key);
+  }
+
+  async keys(prefix: string) {
+    const pattern = NAMESPACE + prefix.replace(/[*?[\]\\]/g, '\\$&') + '*';
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        500,
+      );
+      cursor = next;
+      for (const key of batch) keys.push(key.slice(NAMESPACE.length));
+    } while (cursor !== '0');
+
+    return keys;
+  }
+
+  async stats() {
+    const memory = await this.client.info('memory');
+    const usedMemory = memory.match(/used_memory:(\d+)/)?.[1];
+
+    // the memory figure covers the whole instance, not only cache entries
+    return {
+      keys: (await this.keys('')).length,
+      bytes: usedMemory ? Number(usedMemory) : null,
+    };
+  }
+}
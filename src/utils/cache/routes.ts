@@ -0,0 +1,51 @@
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+
+import cache from '.';
+import { requireAdmin } from '../admin';
+import { object, positive } from '../schemas';
+
+type KeysRequest = FastifyRequest<{
+  Querystring: { prefix?: string; limit?: number };
+}>;
+type PurgeRequest = FastifyRequest<{ Querystring: { prefix: string } }>;
+
+// may be empty, which lists every key
+const prefixParam = { type: 'string' } as const;
+
+// accepts `animekai:watch:` as well as the `animekai:watch:*` form of the same prefix
+const toPrefix = (prefix: string) => prefix.replace(/\*$/, '');
+
+export default class CacheAdmin {
+  public getCacheAdmin = async (fastify: FastifyInstance, options: RegisterOptions) => {
+    fastify.addHook('preHandler', requireAdmin);
+
+    fastify.get('/cache/stats', async (request: FastifyRequest, reply: FastifyReply) => {
+      reply.status(200).send(await cache.stats());
+    });
+
+    fastify.get(
+      '/cache/keys',
+      { schema: { querystring: object({ prefix: prefixParam, limit: positive }) } },
+      async (request: KeysRequest, reply: FastifyReply) => {
+        const prefix = toPrefix(request.query.prefix ?? '');
+        const limit = request.query.limit ?? 1000;
+
+        const keys = await cache.keys(prefix);
+        reply
+          .status(200)
+          .send({ prefix, total: keys.length, keys: keys.slice(0, limit) });
+      },
+    );
+
+    // `prefix=*` purges everything, e.g. after changing a provider's response format
+    fastify.delete(
+      '/cache',
+      { schema: { querystring: object({ prefix: prefixParam }, ['prefix']) } },
+      async (request: PurgeRequest, reply: FastifyReply) => {
+        const prefix = toPrefix(request.query.prefix);
+
+        reply.status(200).send({ prefix, deleted: await cache.purge(prefix) });
+      },
+    );
+  };
+}
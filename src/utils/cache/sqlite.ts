@@ -0,0 +1,63 @@
+import { CacheBackend } from './types';
+
+/**
+ * File-backed cache for single instances without Redis. Relies on the optional
+ * `better-sqlite3` dependency, which is only loaded when this backend is selected.
+ */
+export default class SqliteCache implements CacheBackend {
+  public readonly name = 'sqlite';
+
+  private db: any;
+
+  constructor(file: string) {
+    const Database = require('better-sqlite3');
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL)',
+    );
+    // expired rows are otherwise only removed when they are read again
+    this.db.prepare('DELETE FROM cache WHERE expires_at <= ?').run(Date.now());
+  }
+
+  async get(key: string) {
+    const row = this.db
+      .prepare('SELECT value, expires_at FROM cache WHERE key = ?')
+      .get(key) as { value: string; expires_at: number } | undefined;
+    if (!row) return null;
+
+    if (row.expires_at <= Date.now()) {
+      await this.del(key);
+      return null;
+    }
+
+    return row.value;
+  }
+
+  async set(key: string, value: string, ttl: number) {
+    this.db
+      .prepare('INSERT OR REPLACE INTO cache (key, value, expires_at) VALUES (?, ?, ?)')
+      .run(key, value, Date.now() + ttl * 1000);
+  }
+
+  async del(key: string) {
+    this.db.prepare('DELETE FROM cache WHERE key = ?').run(key);
+  }
+
+  async keys(prefix: string) {
+    const rows = this.db
+      .prepare("SELECT key FROM cache WHERE key LIKE ? ESCAPE '\\' AND expires_at > ?")
+      .all(prefix.replace(/[\\%_]/g, '\\$&') + '%', Date.now()) as { key: string }[];
+
+    return rows.map((row) => row.key);
+  }
+
+  async stats() {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS keys, SUM(LENGTH(value)) AS bytes FROM cache')
+      .get() as { keys: number; bytes: number | null };
+
+    return { keys: row.keys, bytes: row.bytes ?? 0 };
+  }
+}
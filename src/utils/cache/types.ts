@@ -0,0 +1,11 @@
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  // ttl in seconds
+  set(key: string, value: string, ttl: number): Promise<void>;
+  del(key: string): Promise<void>;
+  // live keys starting with `prefix`
+  keys(prefix: string): Promise<string[]>;
+  // `bytes` is null when the backend cannot tell
+  stats(): Promise<{ keys: number; bytes: number | null }>;
+}
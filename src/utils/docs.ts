@@ -0,0 +1,60 @@
+import { FastifyInstance } from 'fastify';
+import FastifySwagger from '@fastify/swagger';
+import FastifySwaggerUi from '@fastify/swagger-ui';
+
+const DOCS_PREFIX = '/docs';
+
+// route urls by the prefix they were registered under, e.g. `/anime/hianime` -> `/info`
+const providerUrls = new Map<string, string[]>();
+
+// `/anime/hianime` is documented under the `hianime` tag
+const tagOf = (prefix: string) => prefix.split('/').pop() ?? '';
+
+/**
+ * Generates an OpenAPI document from the route schemas, served at `/docs/openapi.json`
+ * and browsable at `/docs`. Must be registered before the routes it describes.
+ */
+export const registerDocs = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRoute', (routeOptions) => {
+    const tag = tagOf(routeOptions.prefix);
+    if (!tag) return;
+
+    // shared schemas like `idSchema` are used by many providers, so copy before tagging
+    routeOptions.schema = { ...routeOptions.schema, tags: [tag] };
+
+    const url = routeOptions.url.slice(routeOptions.prefix.length) || '/';
+    const urls = providerUrls.get(routeOptions.prefix) ?? [];
+    if (routeOptions.method !== 'HEAD' && url !== '/' && !urls.includes(url))
+      urls.push(url);
+    providerUrls.set(routeOptions.prefix, urls);
+  });
+
+  await fastify.register(FastifySwagger, {
+    openapi: {
+      info: {
+        title: 'Cosmunet API',
+        description: 'Anime, manga, movie and meta providers behind one API.',
+        version: process.env.npm_package_version ?? '1.0.0',
+      },
+    },
+  });
+
+  await fastify.register(FastifySwaggerUi, {
+    routePrefix: DOCS_PREFIX,
+    uiConfig: { deepLinking: true },
+  });
+
+  fastify.get(`${DOCS_PREFIX}/openapi.json`, { schema: { hide: true } }, async () =>
+    fastify.swagger(),
+  );
+};
+
+/**
+ * The routes registered under the calling plugin's prefix, for its intro route.
+ */
+export const providerRoutes = (fastify: FastifyInstance) =>
+  providerUrls.get(fastify.prefix) ?? [];
+
+// the provider's section of the interactive docs
+export const docsUrl = (fastify: FastifyInstance) =>
+  `${DOCS_PREFIX}#/${tagOf(fastify.prefix)}`;
@@ -0,0 +1,215 @@
+import { FastifyError, FastifyInstance } from 'fastify';
+
+export type ErrorCode =
+  | 'INVALID_INPUT'
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_BLOCKED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'PARSE_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Body of every error response. `message` is meant for people, `code` for clients.
+ */
+export interface ErrorBody {
+  statusCode: number;
+  code: ErrorCode | string;
+  error: string;
+  message: string;
+  // extra context, e.g. the providers tried before giving up
+  details?: Record<string, unknown>;
+}
+
+export interface ApiErrorOptions {
+  // the underlying error, logged but never sent
+  cause?: unknown;
+  details?: Record<string, unknown>;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+export class ApiError extends Error {
+  public cause?: unknown;
+  public details?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    public statusCode = 500,
+    public code: ErrorCode = 'INTERNAL_ERROR',
+    { cause, details }: ApiErrorOptions = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+    this.details = details;
+  }
+}
+
+// a required parameter is missing or malformed
+export class InvalidInput extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, 400, 'INVALID_INPUT', options);
+  }
+}
+
+// the provider has no such anime, episode, chapter, ...
+export class NotFound extends ApiError {
+  constructor(message = 'Not found', options?: ApiErrorOptions) {
+    super(message, 404, 'NOT_FOUND', options);
+  }
+}
+
+// a missing or invalid API key, admin key or token
+export class Unauthorized extends ApiError {
+  constructor(message = 'Unauthorized', options?: ApiErrorOptions) {
+    super(message, 401, 'UNAUTHORIZED', options);
+  }
+}
+
+// a valid key calling a route it isn't allowed to
+export class Forbidden extends ApiError {
+  constructor(message = 'Forbidden', options?: ApiErrorOptions) {
+    super(message, 403, 'FORBIDDEN', options);
+  }
+}
+
+// a client over its rate limit or quota; the `retry-after` header says for how long
+export class RateLimited extends ApiError {
+  constructor(message = 'Too many requests', options?: ApiErrorOptions) {
+    super(message, 429, 'RATE_LIMITED', options);
+  }
+}
+
+// a feature turned off by the server's configuration
+export class Unavailable extends ApiError {
+  constructor(message = 'Service unavailable', options?: ApiErrorOptions) {
+    super(message, 503, 'UNAVAILABLE', options);
+  }
+}
+
+// the provider answered with an error of its own
+export class UpstreamError extends ApiError {
+  constructor(message = 'The provider returned an error.', options?: ApiErrorOptions) {
+    super(message, 502, 'UPSTREAM_ERROR', options);
+  }
+}
+
+// a 403, 429 or Cloudflare challenge, usually fixed by a proxy
+export class UpstreamBlocked extends ApiError {
+  constructor(message = 'The provider blocked the request.', options?: ApiErrorOptions) {
+    super(message, 502, 'UPSTREAM_BLOCKED', options);
+  }
+}
+
+export class UpstreamTimeout extends ApiError {
+  constructor(
+    message = 'The provider did not answer in time.',
+    options?: ApiErrorOptions,
+  ) {
+    super(message, 504, 'UPSTREAM_TIMEOUT', options);
+  }
+}
+
+// the provider answered, but not with what the scraper expects
+export class ParseError extends ApiError {
+  constructor(
+    message = "Could not read the provider's response. Its site may have changed.",
+    options?: ApiErrorOptions,
+  ) {
+    super(message, 502, 'PARSE_ERROR', options);
+  }
+}
+
+const INTERNAL_MESSAGE = 'Something went wrong. Contact developer for help.';
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+type ApiErrorClass = new (message?: string, options?: ApiErrorOptions) => ApiError;
+
+/**
+ * Maps anything a route throws to an `ApiError`. Provider libraries often rethrow axios
+ * errors as plain `Error`s with the same message, so those are recognized by message too.
+ * Errors that match nothing become a `Fallback` with their message, if one is given.
+ */
+export const toApiError = (err: unknown, Fallback?: ApiErrorClass): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  const e = err as any;
+  const message = String(e?.message ?? e ?? '');
+  const status: number | undefined =
+    e?.response?.status ?? Number(message.match(/status code (\d{3})/)?.[1] ?? NaN);
+
+  if (TIMEOUT_CODES.includes(e?.code) || /timeout|timed out/i.test(message))
+    return new UpstreamTimeout(undefined, { cause: err });
+  if (status === 403 || status === 429 || /cloudflare/i.test(message))
+    return new UpstreamBlocked(undefined, { cause: err });
+  if (status === 404) return new NotFound(undefined, { cause: err });
+  if ((status && status >= 400) || NETWORK_CODES.includes(e?.code))
+    return new UpstreamError(undefined, { cause: err });
+  // selectors or JSON that no longer match the page
+  if (err instanceof TypeError || err instanceof SyntaxError)
+    return new ParseError(undefined, { cause: err });
+
+  if (Fallback) return new Fallback(message || undefined, { cause: err });
+
+  return new ApiError(INTERNAL_MESSAGE, 500, 'INTERNAL_ERROR', { cause: err });
+};
+
+export const errorBody = (err: ApiError): ErrorBody => ({
+  statusCode: err.statusCode,
+  code: err.code,
+  error: STATUS_TEXT[err.statusCode] ?? 'Error',
+  message: err.message,
+  ...(err.details && { details: err.details }),
+});
+
+// Ajv's enum message doesn't say which values are allowed
+const validationMessage = (err: FastifyError) => {
+  const allowed = err.validation?.[0]?.params?.allowedValues;
+
+  return Array.isArray(allowed) ? `${err.message}: ${allowed.join(', ')}` : err.message;
+};
+
+/**
+ * Answers every error thrown by a route with an `ErrorBody`. Fastify's own client errors
+ * (invalid JSON, schema validation, ...) keep their status but share the same shape.
+ */
+export const registerErrorHandler = (fastify: FastifyInstance) => {
+  fastify.setErrorHandler((err: FastifyError, request, reply) => {
+    // hooks may set the status before passing a plain `Error` to `done`
+    const statusCode =
+      err.statusCode ?? (reply.statusCode >= 400 ? reply.statusCode : 500);
+
+    let error: ApiError;
+    if (err.validation) error = new InvalidInput(validationMessage(err));
+    else if (!(err instanceof ApiError) && statusCode < 500) {
+      const code = err.code ?? STATUS_TEXT[statusCode]?.toUpperCase().replace(/ /g, '_');
+      error = new ApiError(err.message, statusCode, (code ?? 'ERROR') as ErrorCode);
+    } else error = toApiError(err);
+
+    if (error.statusCode >= 500)
+      request.log.error({ err: error.cause ?? err }, error.message);
+
+    reply.status(error.statusCode).send(errorBody(error));
+  });
+
+  fastify.setNotFoundHandler((request, reply) => {
+    const error = new NotFound(`Route ${request.method}:${request.url} not found`);
+    reply.status(404).send(errorBody(error));
+  });
+};
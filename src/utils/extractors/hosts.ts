@@ -0,0 +1,163 @@
+import { Subtitle, Video } from '../../models';
+import { USER_AGENT, scraper } from '../scraper';
+import { unpackPage } from './unpack';
+
+/**
+ * What an embedded player plays, with the headers its CDN expects.
+ */
+export interface EmbedSources {
+  headers: Record<string, string>;
+  sources: Video[];
+  subtitles: Subtitle[];
+}
+
+export interface Extractor {
+  name: string;
+  // embed hosts, subdomains included
+  hosts: string[];
+  extract: (url: URL, referer?: string) => Promise<EmbedSources>;
+}
+
+// the CDNs check the player's origin, and some tie their tokens to the User-Agent
+const playerHeaders = (url: URL) => ({
+  Referer: `${url.origin}/`,
+  'User-Agent': USER_AGENT,
+});
+
+const fetchPage = async (url: URL, referer?: string): Promise<string> => {
+  const { data } = await scraper.get(url.href, {
+    headers: { 'User-Agent': USER_AGENT, ...(referer && { Referer: referer }) },
+  });
+
+  return String(data);
+};
+
+// trailing quotes, brackets and escapes picked up by the url patterns
+const cleanUrl = (url: string) => url.replace(/[\\'")\]},;]+$/, '');
+
+const video = (url: string, quality = 'auto'): Video => ({
+  url,
+  quality,
+  isM3U8: /\.m3u8/.test(url),
+});
+
+const JW_ENTRY = /\{[^{}]*?\bfile\s*:\s*["']([^"']+)["'][^{}]*\}/g;
+const LABEL = /\blabel\s*:\s*["']([^"']+)["']/;
+const CAPTIONS = /\bkind\s*:\s*["'](captions|subtitles)["']/;
+const MEDIA_URL = /https?:\/\/[^\s"'<>]+\.(m3u8|mp4)[^\s"'<>]*/g;
+
+/**
+ * Reads a player page: the `sources` and `tracks` of a jwplayer setup, else any playlist
+ * or mp4 url in the page. Packed scripts are unpacked first.
+ */
+export const playerPage = async (url: URL, referer?: string): Promise<EmbedSources> => {
+  const page = unpackPage(await fetchPage(url, referer)).replace(/\\\//g, '/');
+  const sources: Video[] = [];
+  const subtitles: Subtitle[] = [];
+
+  for (const [entry, file] of page.matchAll(JW_ENTRY)) {
+    const fileUrl = new URL(file, url).href;
+    const label = entry.match(LABEL)?.[1];
+
+    if (CAPTIONS.test(entry) || /\.(vtt|srt)(\?|$)/.test(file)) {
+      if (!/thumbnails/i.test(label ?? ''))
+        subtitles.push({ url: fileUrl, lang: label || 'Unknown' });
+    } else if (/\.(m3u8|mp4)/.test(file)) sources.push(video(fileUrl, label));
+  }
+
+  if (sources.length === 0) {
+    const urls = [...page.matchAll(MEDIA_URL)].map(([match]) => cleanUrl(match));
+    // playlists first, mp4s are often trailers or ads
+    const playlists = urls.filter((match) => match.includes('.m3u8'));
+    for (const match of playlists.length > 0 ? playlists : urls)
+      sources.push(video(match));
+  }
+
+  return { headers: playerHeaders(url), sources, subtitles };
+};
+
+// `robotlink` is filled with a url split in two, the second half prefixed with junk
+const ROBOTLINK =
+  /getElementById\('robotlink'\)\.innerHTML\s*=\s*'([^']+)'\s*\+\s*\('([^']+)'\)\.substring\((\d+)\)/;
+
+const streamtape = async (url: URL, referer?: string): Promise<EmbedSources> => {
+  const match = (await fetchPage(url, referer)).match(ROBOTLINK);
+  if (!match) throw new Error('streamtape: no video link');
+
+  const link = `https:${match[1]}${match[2].substring(Number(match[3]))}&stream=1`;
+
+  return { headers: playerHeaders(url), sources: [video(link)], subtitles: [] };
+};
+
+const TOKEN_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// the video link is the `pass_md5` answer, 10 random characters, the token and a timestamp
+const dood = async (url: URL, referer?: string): Promise<EmbedSources> => {
+  const embedUrl = new URL(url.pathname.replace(/^\/d\//, '/e/'), url);
+  const path = (await fetchPage(embedUrl, referer)).match(/\/pass_md5\/[^'"]+/)?.[0];
+  if (!path) throw new Error('dood: no pass_md5 path');
+
+  const { data } = await scraper.get(new URL(path, url).href, {
+    headers: { Referer: embedUrl.href, 'User-Agent': USER_AGENT },
+  });
+  const suffix = Array.from(
+    { length: 10 },
+    () => TOKEN_CHARS[Math.floor(Math.random() * TOKEN_CHARS.length)],
+  ).join('');
+  const token = path.split('/').pop();
+  const link = `${data}${suffix}?token=${token}&expiry=${Date.now()}`;
+
+  return { headers: playerHeaders(url), sources: [video(link)], subtitles: [] };
+};
+
+const mp4upload = async (url: URL, referer?: string): Promise<EmbedSources> => {
+  const link = (await fetchPage(url, referer)).match(
+    /src:\s*"(https?:\/\/[^"]+\.mp4)"/,
+  )?.[1];
+  if (!link) throw new Error('mp4upload: no video link');
+
+  return {
+    headers: { Referer: 'https://www.mp4upload.com/', 'User-Agent': USER_AGENT },
+    sources: [video(link)],
+    subtitles: [],
+  };
+};
+
+/**
+ * The embedded players the custom scrapers run into. Hosts without an entry are read
+ * with `playerPage`.
+ */
+export const EXTRACTORS: Extractor[] = [
+  {
+    name: 'streamtape',
+    hosts: ['streamtape.com', 'streamtape.to', 'streamtape.net', 'strtape.cloud'],
+    extract: streamtape,
+  },
+  {
+    name: 'dood',
+    hosts: ['dood.watch', 'dood.to', 'dood.so', 'dood.li', 'doodstream.com', 'd000d.com'],
+    extract: dood,
+  },
+  { name: 'mp4upload', hosts: ['mp4upload.com'], extract: mp4upload },
+  {
+    name: 'filemoon',
+    hosts: ['filemoon.sx', 'filemoon.to', 'filemoon.in', 'kerapoxy.cc'],
+    extract: playerPage,
+  },
+  {
+    name: 'streamwish',
+    hosts: [
+      'streamwish.com',
+      'streamwish.to',
+      'wishembed.pro',
+      'swdyu.com',
+      'playerwish.com',
+    ],
+    extract: playerPage,
+  },
+  {
+    name: 'vidhide',
+    hosts: ['vidhide.com', 'vidhidepro.com', 'vidhidevip.com', 'vidhideplus.com'],
+    extract: playerPage,
+  },
+];
@@ -0,0 +1,36 @@
+import { EXTRACTORS, EmbedSources, Extractor, playerPage } from './hosts';
+
+export { EXTRACTORS, EmbedSources, Extractor };
+
+const GENERIC: Extractor = { name: 'generic', hosts: [], extract: playerPage };
+
+// the extractor of an embed url, by its host or a parent domain of it
+export const extractorFor = (url: string): Extractor => {
+  const host = new URL(url).hostname.replace(/^www\./, '');
+
+  return (
+    EXTRACTORS.find(({ hosts }) =>
+      hosts.some((name) => host === name || host.endsWith('.' + name)),
+    ) ?? GENERIC
+  );
+};
+
+/**
+ * Resolves an embedded player into the sources it plays, for the custom scrapers to try
+ * before they fall back to returning the iframe. Gives `null` when the player can't be
+ * read, so a failed extraction never fails the request.
+ */
+export const extractEmbed = async (
+  url: string,
+  referer?: string,
+): Promise<EmbedSources | null> => {
+  try {
+    const extractor = extractorFor(url);
+    const extracted = await extractor.extract(new URL(url), referer);
+
+    return extracted.sources.length > 0 ? extracted : null;
+  } catch (err: any) {
+    console.warn(`Could not extract ${url}: ${err?.message ?? err}`);
+    return null;
+  }
+};
@@ -0,0 +1,26 @@
+// `eval(function(p,a,c,k,e,d){...}('payload',radix,count,'keywords'.split('|')...))`
+const PACKED =
+  /eval\(function\(p,a,c,k,e,[rd]\)[\s\S]*?\}\(\s*'([\s\S]*?)',\s*(\d+),\s*(\d+),\s*'([\s\S]*?)'\.split\('\|'\)/g;
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const decode = (word: string, radix: number) =>
+  [...word].reduce((value, digit) => value * radix + DIGITS.indexOf(digit), 0);
+
+/**
+ * Reverses Dean Edwards' packer, which most embedded players wrap their setup script
+ * in. Every word of the payload is an index, in base `radix`, into the keyword list.
+ */
+export const unpack = (payload: string, radix: number, keywords: string[]) =>
+  payload
+    .replace(/\\'/g, "'")
+    .replace(/\b\w+\b/g, (word) => keywords[decode(word, radix)] || word);
+
+/**
+ * The page with its packed scripts unpacked in place, so sources can be searched for
+ * in plain text.
+ */
+export const unpackPage = (html: string) =>
+  html.replace(PACKED, (_, payload: string, radix: string, _count, keywords: string) =>
+    unpack(payload, Number(radix), keywords.split('|')),
+  );
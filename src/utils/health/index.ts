@@ -0,0 +1,233 @@
+import { FastifyInstance } from 'fastify';
+
+import { internalRequestHeaders } from '../internal';
+import { PROBES, Probe } from './probes';
+
+export type ProbeStepName = 'search' | 'info' | 'watch';
+
+export interface ProbeStep {
+  step: ProbeStepName;
+  ok: boolean;
+  status?: number;
+  // milliseconds
+  latency: number;
+  error?: string;
+}
+
+export interface ProbeRun {
+  at: number;
+  ok: boolean;
+  latency: number;
+  steps: ProbeStep[];
+}
+
+export type ProviderStatus = 'up' | 'degraded' | 'down' | 'unknown';
+
+// seconds between two rounds of probes, 0 only runs them on demand
+export const PROBE_INTERVAL = Number(process.env.HEALTH_PROBE_INTERVAL ?? 60 * 30);
+const STEP_TIMEOUT = Number(process.env.HEALTH_PROBE_TIMEOUT) || 30000;
+const HISTORY = Number(process.env.HEALTH_HISTORY) || 48;
+// consecutive failed runs before a provider is reported down rather than degraded
+const DOWN_AFTER = 3;
+
+const history = new Map<string, ProbeRun[]>();
+let running: Promise<void> | null = null;
+let lastRound: { startedAt: number; finishedAt?: number } | null = null;
+
+class ProbeError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+  ) {
+    super(message);
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProbeError(`timed out after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const request = async (fastify: FastifyInstance, url: string) => {
+  // bypasses the cache, so the probe reaches the upstream site
+  const response = await withTimeout(
+    fastify.inject({
+      method: 'GET',
+      url,
+      headers: { ...internalRequestHeaders, 'cache-control': 'no-cache' },
+    }),
+    STEP_TIMEOUT,
+  );
+
+  let body: any = null;
+  try {
+    body = response.json();
+  } catch {
+    if (response.statusCode === 200) throw new ProbeError('response is not JSON', 200);
+  }
+
+  if (response.statusCode !== 200)
+    throw new ProbeError(body?.message ?? response.statusMessage, response.statusCode);
+
+  return body;
+};
+
+const step = async <T>(
+  steps: ProbeStep[],
+  name: ProbeStepName,
+  run: () => Promise<T>,
+): Promise<T> => {
+  const started = Date.now();
+  try {
+    const result = await run();
+    steps.push({ step: name, ok: true, status: 200, latency: Date.now() - started });
+    return result;
+  } catch (err: any) {
+    steps.push({
+      step: name,
+      ok: false,
+      status: err?.status,
+      latency: Date.now() - started,
+      error: err?.message ?? String(err),
+    });
+    throw err;
+  }
+};
+
+const firstId = (items: any, what: string) => {
+  const id = Array.isArray(items) ? items[0]?.id : undefined;
+  if (!id) throw new ProbeError(`no ${what} returned`);
+
+  return String(id);
+};
+
+/**
+ * Runs the search → info → watch chain of one provider through the app itself, so the
+ * probe covers the routes, the scrapers and the upstream sites together.
+ */
+export const runProbe = async (fastify: FastifyInstance, probe: Probe) => {
+  const base = `/${probe.category}/${probe.provider}`;
+  const steps: ProbeStep[] = [];
+  const at = Date.now();
+
+  try {
+    const search = await step(steps, 'search', () =>
+      request(fastify, `${base}/${encodeURIComponent(probe.query)}`),
+    );
+    const id = firstId(search?.results, 'search results');
+
+    const info = await step(steps, 'info', () => request(fastify, base + probe.info(id)));
+    const episodeId = firstId(info?.episodes ?? info?.chapters, 'episodes');
+
+    await step(steps, 'watch', async () => {
+      const watch = await request(fastify, base + probe.watch(episodeId, id));
+      // manga pages are returned as a plain list
+      const sources = Array.isArray(watch) ? watch : watch?.sources;
+      if (!Array.isArray(sources) || sources.length === 0)
+        throw new ProbeError('no sources returned');
+    });
+  } catch {
+    // recorded in `steps`
+  }
+
+  const run: ProbeRun = {
+    at,
+    ok: steps.length === 3 && steps.every(({ ok }) => ok),
+    latency: Date.now() - at,
+    steps,
+  };
+
+  const runs = history.get(probe.provider) ?? [];
+  runs.push(run);
+  history.set(probe.provider, runs.slice(-HISTORY));
+
+  return run;
+};
+
+/**
+ * Probes every provider, one after the other so a round doesn't burst the upstream
+ * limits. A round already in progress is joined rather than started twice.
+ */
+export const runProbes = (fastify: FastifyInstance) => {
+  running ??= (async () => {
+    const round: { startedAt: number; finishedAt?: number } = { startedAt: Date.now() };
+    lastRound = round;
+    for (const probe of PROBES) {
+      const run = await runProbe(fastify, probe);
+      if (!run.ok)
+        console.warn(
+          `Health probe of ${probe.provider} failed: ${run.steps
+            .filter(({ ok }) => !ok)
+            .map(({ step, error }) => `${step}: ${error}`)
+            .join(', ')}`,
+        );
+    }
+    round.finishedAt = Date.now();
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+};
+
+export const describeProvider = (probe: Probe, detailed = false) => {
+  const runs = history.get(probe.provider) ?? [];
+  const last = runs[runs.length - 1];
+
+  let failing = 0;
+  while (failing < runs.length && !runs[runs.length - 1 - failing].ok) failing++;
+
+  const status: ProviderStatus = !last
+    ? 'unknown'
+    : last.ok
+      ? 'up'
+      : failing >= DOWN_AFTER
+        ? 'down'
+        : 'degraded';
+
+  const succeeded = runs.filter(({ ok }) => ok);
+
+  return {
+    provider: probe.provider,
+    category: probe.category,
+    status,
+    uptime: runs.length ? Number((succeeded.length / runs.length).toFixed(3)) : null,
+    latency: {
+      last: last?.latency ?? null,
+      average: succeeded.length
+        ? Math.round(
+            succeeded.reduce((total, { latency }) => total + latency, 0) /
+              succeeded.length,
+          )
+        : null,
+    },
+    lastCheckedAt: last ? new Date(last.at).toISOString() : null,
+    lastError: last?.steps.find(({ ok }) => !ok) ?? null,
+    history: detailed
+      ? runs.map((run) => ({ ...run, at: new Date(run.at).toISOString() }))
+      : runs.map(({ at, ok, latency }) => ({
+          at: new Date(at).toISOString(),
+          ok,
+          latency,
+        })),
+  };
+};
+
+export const healthReport = () => ({
+  interval: PROBE_INTERVAL,
+  running: running !== null,
+  lastRound: lastRound && {
+    startedAt: new Date(lastRound.startedAt).toISOString(),
+    finishedAt: lastRound.finishedAt
+      ? new Date(lastRound.finishedAt).toISOString()
+      : null,
+  },
+  providers: PROBES.map((probe) => describeProvider(probe)),
+});
+
+export { PROBES };
+export type { Probe };
@@ -0,0 +1,129 @@
+export type ProbeCategory = 'anime' | 'manga' | 'movies';
+
+export interface Probe {
+  provider: string;
+  category: ProbeCategory;
+  // searched for the first step, the first result is then opened and watched
+  query: string;
+  // paths below `/<category>/<provider>`, for the id of the first search result and the
+  // first episode (or chapter) of its info
+  info: (id: string) => string;
+  watch: (episodeId: string, id: string) => string;
+}
+
+const e = encodeURIComponent;
+
+const QUERIES: Record<ProbeCategory, string> = {
+  anime: 'one piece',
+  manga: 'one piece',
+  movies: 'breaking bad',
+};
+
+const probe = (
+  category: ProbeCategory,
+  provider: string,
+  info: Probe['info'],
+  watch: Probe['watch'],
+  query = QUERIES[category],
+): Probe => ({ provider, category, query, info, watch });
+
+/**
+ * The providers registered in `routes/anime`, `routes/manga` and `routes/movies`, with
+ * the shape of their info and watch routes.
+ */
+export const PROBES: Probe[] = [
+  probe(
+    'anime',
+    'hianime',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch/${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'animekai',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch/${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'animepahe',
+    (id) => `/info/${e(id)}`,
+    (ep) => `/watch?episodeId=${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'animeunity',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch/${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'animesaturn',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch/${e(ep)}`,
+  ),
+  // episode ids contain slashes, matched by the `/watch/*` wildcard
+  probe(
+    'anime',
+    'kickassanime',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch/${ep}`,
+  ),
+  probe(
+    'anime',
+    'animeyy',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch?episodeId=${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'anizone',
+    (id) => `/info/${e(id)}`,
+    (ep) => `/watch?episodeId=${e(ep)}`,
+  ),
+  probe(
+    'anime',
+    'allmanga',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch?episodeId=${e(ep)}`,
+  ),
+  probe(
+    'manga',
+    'mangadex',
+    (id) => `/info/${e(id)}`,
+    (ch) => `/read/${e(ch)}`,
+  ),
+  probe(
+    'manga',
+    'mangahere',
+    (id) => `/info?id=${e(id)}`,
+    (ch) => `/read?chapterId=${e(ch)}`,
+  ),
+  probe(
+    'manga',
+    'mangapill',
+    (id) => `/info?id=${e(id)}`,
+    (ch) => `/read?chapterId=${e(ch)}`,
+  ),
+  probe(
+    'manga',
+    'managreader',
+    (id) => `/info?id=${e(id)}`,
+    (ch) => `/read?chapterId=${e(ch)}`,
+  ),
+  ...['flixhq', 'goku', 'sflix', 'himovies'].map((provider) =>
+    probe(
+      'movies',
+      provider,
+      (id) => `/info?id=${e(id)}`,
+      (ep, id) => `/watch?episodeId=${e(ep)}&mediaId=${e(id)}`,
+    ),
+  ),
+  probe(
+    'movies',
+    'dramacool',
+    (id) => `/info?id=${e(id)}`,
+    (ep) => `/watch?episodeId=${e(ep)}`,
+    'vincenzo',
+  ),
+];
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+
+import { PROBES, PROBE_INTERVAL, describeProvider, healthReport, runProbes } from '.';
+import { requireAdmin } from '../admin';
+import { NotFound } from '../errors';
+import { object, text } from '../schemas';
+
+type ProviderRequest = FastifyRequest<{ Params: { provider: string } }>;
+
+// the first round waits a minute, so a restart loop doesn't hammer the providers
+const FIRST_ROUND_DELAY = 60 * 1000;
+
+export default class HealthCheck {
+  public getHealth = async (fastify: FastifyInstance, options: RegisterOptions) => {
+    if (PROBE_INTERVAL > 0)
+      fastify.addHook('onReady', async () => {
+        const run = () =>
+          runProbes(fastify).catch((err) =>
+            console.warn(`Health probes failed: ${err?.message ?? err}`),
+          );
+
+        setTimeout(run, FIRST_ROUND_DELAY).unref();
+        setInterval(run, PROBE_INTERVAL * 1000).unref();
+      });
+
+    fastify.get('/health', async (request: FastifyRequest, reply: FastifyReply) => {
+      reply.status(200).send(healthReport());
+    });
+
+    fastify.get(
+      '/health/dashboard',
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        const page = fs.readFileSync(__dirname + '/../../../demo/health.html');
+        return reply.type('text/html').send(page);
+      },
+    );
+
+    fastify.get(
+      '/health/:provider',
+      { schema: { params: object({ provider: text }, ['provider']) } },
+      async (request: ProviderRequest, reply: FastifyReply) => {
+        const probe = PROBES.find(({ provider }) => provider === request.params.provider);
+        if (!probe) throw new NotFound('Provider is not probed');
+
+        reply.status(200).send(describeProvider(probe, true));
+      },
+    );
+
+    // runs a round right away and answers once it is done
+    fastify.post(
+      '/health/run',
+      { preHandler: requireAdmin },
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        await runProbes(fastify);
+        reply.status(200).send(healthReport());
+      },
+    );
+  };
+}
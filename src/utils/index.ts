@@ -1,9 +1,17 @@
 import { FastifyInstance, RegisterOptions } from 'fastify';
 
 import Providers from './providers';
+import M3U8Proxy from './proxy';
+import CacheAdmin from './cache/routes';
+import ApiKeyAdmin from './apikeys/routes';
+import HealthCheck from './health/routes';
 
 const routes = async (fastify: FastifyInstance, options: RegisterOptions) => {
   await fastify.register(new Providers().getProviders);
+  await fastify.register(new M3U8Proxy().getProxy);
+  await fastify.register(new CacheAdmin().getCacheAdmin);
+  await fastify.register(new ApiKeyAdmin().getApiKeyAdmin);
+  await fastify.register(new HealthCheck().getHealth);
 
   fastify.get('/', async (request: any, reply: any) => {
     reply.status(200).send('Welcome to Consumet Utils!');
@@ -0,0 +1,18 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+
+// regenerated on every start, so it is only ever known inside the process
+const INTERNAL_TOKEN = randomBytes(24).toString('base64url');
+
+/**
+ * Headers for `fastify.inject` calls made by aggregating routes, so their sub-requests
+ * aren't authenticated and counted a second time.
+ */
+export const internalRequestHeaders = { 'x-internal-request': INTERNAL_TOKEN };
+
+export const isInternalRequest = (request: FastifyRequest) => {
+  const provided = Buffer.from(String(request.headers['x-internal-request'] ?? ''));
+  const expected = Buffer.from(INTERNAL_TOKEN);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
@@ -0,0 +1,119 @@
+const URI_ATTRIBUTE = /URI="([^"]+)"/;
+
+/**
+ * Checks whether an upstream response is an HLS playlist, either by its content type
+ * or, when the CDN serves it as `application/octet-stream`, by the url extension.
+ */
+export const isPlaylist = (url: string, contentType: string = '') => {
+  if (/mpegurl/i.test(contentType)) return true;
+
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Rewrites every uri referenced by a playlist (variant streams, segments, keys, init
+ * maps, alternative renditions and subtitles). Relative uris are resolved against the
+ * playlist url before being passed to `rewrite`.
+ */
+export const rewritePlaylist = (
+  playlist: string,
+  baseUrl: string,
+  rewrite: (uri: string) => string,
+) => {
+  const resolve = (uri: string) => rewrite(new URL(uri, baseUrl).href);
+
+  return playlist
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+
+      if (trimmed.startsWith('#')) {
+        const match = trimmed.match(URI_ATTRIBUTE);
+        if (!match) return line;
+
+        return trimmed.replace(URI_ATTRIBUTE, `URI="${resolve(match[1])}"`);
+      }
+
+      return resolve(trimmed);
+    })
+    .join('\n');
+};
+
+// `NAME="English",DEFAULT=YES,URI="a.m3u8"`, quoted values may hold commas
+const ATTRIBUTE = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+const parseAttributes = (line: string) => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of line.slice(line.indexOf(':') + 1).matchAll(ATTRIBUTE))
+    attributes[name] = value.replace(/^"|"$/g, '');
+
+  return attributes;
+};
+
+export interface MediaRendition {
+  type: string;
+  groupId: string;
+  name: string;
+  language: string | null;
+  url: string | null;
+  default: boolean;
+}
+
+export interface StreamVariant {
+  url: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  // `1920x1080`
+  resolution?: string;
+  codecs?: string;
+  frameRate?: number;
+  // the `GROUP-ID` of its audio renditions
+  audio?: string;
+}
+
+/**
+ * Reads the variant streams and renditions of a master playlist, with their uris
+ * resolved against the playlist url. Media playlists have no variants.
+ */
+export const parseMasterPlaylist = (playlist: string, baseUrl: string) => {
+  const variants: StreamVariant[] = [];
+  const renditions: MediaRendition[] = [];
+  const lines = playlist.split(/\r?\n/).map((line) => line.trim());
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attributes = parseAttributes(line);
+      renditions.push({
+        type: attributes['TYPE'],
+        groupId: attributes['GROUP-ID'],
+        name: attributes['NAME'] ?? attributes['LANGUAGE'] ?? 'Unknown',
+        language: attributes['LANGUAGE'] ?? null,
+        url: attributes['URI'] ? new URL(attributes['URI'], baseUrl).href : null,
+        default: attributes['DEFAULT'] === 'YES',
+      });
+    } else if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const uri = lines.slice(i + 1).find((next) => next && !next.startsWith('#'));
+      if (!uri) return;
+
+      const attributes = parseAttributes(line);
+      variants.push({
+        url: new URL(uri, baseUrl).href,
+        bandwidth: Number(attributes['BANDWIDTH']) || 0,
+        ...(attributes['AVERAGE-BANDWIDTH'] && {
+          averageBandwidth: Number(attributes['AVERAGE-BANDWIDTH']),
+        }),
+        ...(attributes['RESOLUTION'] && { resolution: attributes['RESOLUTION'] }),
+        ...(attributes['CODECS'] && { codecs: attributes['CODECS'] }),
+        ...(attributes['FRAME-RATE'] && { frameRate: Number(attributes['FRAME-RATE']) }),
+        ...(attributes['AUDIO'] && { audio: attributes['AUDIO'] }),
+      });
+    }
+  });
+
+  return { variants, renditions };
+};
@@ -0,0 +1,163 @@
+import axios from 'axios';
+import fs from 'fs';
+import { Redis } from 'ioredis';
+
+import { redis } from '../main';
+
+export interface ProviderMapping {
+  id: string;
+  title?: string;
+  // similarity of the matched title, absent for manual overrides
+  score?: number;
+  manual?: boolean;
+}
+
+export interface MappingRecord {
+  anilistId: string;
+  malId?: string;
+  tmdbId?: string;
+  title: { romaji?: string; english?: string; native?: string };
+  year?: number;
+  // keyed by provider name (hianime, animekai, anizone, ...)
+  providers: Record<string, ProviderMapping | null>;
+  updatedAt: string;
+}
+
+export interface AnilistMedia {
+  id: number;
+  idMal: number | null;
+  title: { romaji?: string; english?: string; native?: string };
+  synonyms: string[];
+  format: string | null;
+  seasonYear: number | null;
+  startDate: { year: number | null };
+}
+
+interface MappingStore {
+  get(anilistId: string): Promise<MappingRecord | null>;
+  // resolves an id of another source (mal, tmdb or a provider) to an AniList id
+  lookup(source: string, id: string): Promise<string | null>;
+  save(record: MappingRecord): Promise<void>;
+}
+
+const sourceIds = (record: MappingRecord) => {
+  const ids: [string, string][] = [];
+  if (record.malId) ids.push(['mal', record.malId]);
+  if (record.tmdbId) ids.push(['tmdb', record.tmdbId]);
+  for (const [provider, mapping] of Object.entries(record.providers))
+    if (mapping) ids.push([provider, mapping.id]);
+
+  return ids;
+};
+
+// reverse-index entries of the previous version of a record that the new one dropped,
+// e.g. a provider id replaced by a manual override
+const staleIds = (previous: MappingRecord | null, record: MappingRecord) => {
+  const current = new Set(sourceIds(record).map(([source, id]) => `${source}:${id}`));
+
+  return previous
+    ? sourceIds(previous).filter(([source, id]) => !current.has(`${source}:${id}`))
+    : [];
+};
+
+class RedisMappingStore implements MappingStore {
+  constructor(private readonly client: Redis) {}
+
+  async get(anilistId: string) {
+    const value = await this.client.get(`mappings:anilist:${anilistId}`);
+    return value === null ? null : (JSON.parse(value) as MappingRecord);
+  }
+
+  async lookup(source: string, id: string) {
+    return this.client.get(`mappings:${source}:${id}`);
+  }
+
+  async save(record: MappingRecord) {
+    const stale = staleIds(await this.get(record.anilistId), record).map(
+      ([source, id]) => `mappings:${source}:${id}`,
+    );
+    // another record may have claimed the same id since
+    const owners = stale.length > 0 ? await this.client.mget(stale) : [];
+
+    const pipeline = this.client
+      .multi()
+      .set(`mappings:anilist:${record.anilistId}`, JSON.stringify(record));
+    for (const [i, key] of stale.entries())
+      if (owners[i] === record.anilistId) pipeline.del(key);
+    for (const [source, id] of sourceIds(record))
+      pipeline.set(`mappings:${source}:${id}`, record.anilistId);
+
+    await pipeline.exec();
+  }
+}
+
+/**
+ * Keeps mappings in memory and, when `MAPPINGS_FILE` is set, mirrors them to a JSON file
+ * so they survive restarts on instances without Redis.
+ */
+class LocalMappingStore implements MappingStore {
+  private records: Record<string, MappingRecord> = {};
+  private index: Record<string, string> = {};
+
+  constructor(private readonly file?: string) {
+    if (file && fs.existsSync(file)) {
+      const { records = {}, index = {} } = JSON.parse(fs.readFileSync(file, 'utf8'));
+      this.records = records;
+      this.index = index;
+    }
+  }
+
+  async get(anilistId: string) {
+    return this.records[anilistId] ?? null;
+  }
+
+  async lookup(source: string, id: string) {
+    return this.index[`${source}:${id}`] ?? null;
+  }
+
+  async save(record: MappingRecord) {
+    for (const [source, id] of staleIds(this.records[record.anilistId] ?? null, record))
+      if (this.index[`${source}:${id}`] === record.anilistId)
+        delete this.index[`${source}:${id}`];
+
+    this.records[record.anilistId] = record;
+    for (const [source, id] of sourceIds(record))
+      this.index[`${source}:${id}`] = record.anilistId;
+
+    if (this.file)
+      await fs.promises.writeFile(
+        this.file,
+        JSON.stringify({ records: this.records, index: this.index }),
+      );
+  }
+}
+
+let store: MappingStore | undefined;
+
+// created lazily, since `redis` is only available once main.ts has been evaluated
+export const getMappingStore = () => {
+  store ??= redis
+    ? new RedisMappingStore(redis as Redis)
+    : new LocalMappingStore(process.env.MAPPINGS_FILE);
+
+  return store;
+};
+
+export const fetchAnilistMedia = async (variables: { id?: number; idMal?: number }) => {
+  const { data } = await axios.post('https://graphql.anilist.co', {
+    query: `query ($id: Int, $idMal: Int) {
+      Media(id: $id, idMal: $idMal, type: ANIME) {
+        id idMal title { romaji english native } synonyms format seasonYear startDate { year }
+      }
+    }`,
+    variables,
+  });
+
+  return (data?.data?.Media as AnilistMedia) ?? null;
+};
+
+// the AniList id of a MAL entry, `null` when AniList has no entry for it
+export const fetchAnilistIdByMalId = async (malId: string) => {
+  const media = await fetchAnilistMedia({ idMal: Number(malId) });
+  return media ? String(media.id) : null;
+};
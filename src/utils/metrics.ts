@@ -0,0 +1,225 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { timingSafeEqual } from 'crypto';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { FastifyInstance } from 'fastify';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+import { getApiKeyStore } from './apikeys/store';
+import { Unauthorized } from './errors';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const requests = new Counter({
+  name: 'http_requests_total',
+  help: 'Requests served, by route, provider and status code',
+  labelNames: ['method', 'route', 'provider', 'status'] as const,
+  registers: [registry],
+});
+
+const requestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to answer a request, by route and provider',
+  labelNames: ['method', 'route', 'provider'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [registry],
+});
+
+const upstreamDuration = new Histogram({
+  name: 'upstream_request_duration_seconds',
+  help: 'Duration of requests to upstream sites, by host and outcome (ok or error class)',
+  labelNames: ['host', 'outcome'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [registry],
+});
+
+const scrapeErrors = new Counter({
+  name: 'scrape_errors_total',
+  help: 'Failed scrapes by provider and class: timeout, forbidden, http_error, network or parse',
+  labelNames: ['provider', 'class'] as const,
+  registers: [registry],
+});
+
+const cacheLookups = new Counter({
+  name: 'cache_lookups_total',
+  help: 'Cache lookups by provider and result: hit, stale or miss',
+  labelNames: ['provider', 'result'] as const,
+  registers: [registry],
+});
+
+const cacheRefreshErrors = new Counter({
+  name: 'cache_refresh_errors_total',
+  help: 'Cache refreshes that threw, by provider',
+  labelNames: ['provider'] as const,
+  registers: [registry],
+});
+
+new Gauge({
+  name: 'demo_sessions_active',
+  help: 'Unexpired, unrevoked API keys handed out by /apidemo',
+  registers: [registry],
+  async collect() {
+    const now = new Date().toISOString();
+    const keys = await getApiKeyStore().list();
+
+    this.set(
+      keys.filter(
+        (key) =>
+          key.name.startsWith('demo:') &&
+          !key.revokedAt &&
+          (!key.expiresAt || key.expiresAt > now),
+      ).length,
+    );
+  },
+});
+
+// cache keys start with the provider, e.g. `hianime:info:one-piece-100`
+export const recordCacheLookup = (key: string, result: 'hit' | 'stale' | 'miss') =>
+  cacheLookups.inc({ provider: key.split(':')[0], result });
+
+export const recordCacheError = (key: string) =>
+  cacheRefreshErrors.inc({ provider: key.split(':')[0] });
+
+const PROVIDER_AREAS = [
+  'anime',
+  'manga',
+  'movies',
+  'meta',
+  'news',
+  'comics',
+  'light-novels',
+  'books',
+];
+
+// `/anime/hianime/watch/:episodeId` is served by `hianime`
+const providerOf = (route: string) => {
+  const [, area, provider] = route.split('/');
+
+  return PROVIDER_AREAS.includes(area) && provider && !provider.startsWith(':')
+    ? provider
+    : '';
+};
+
+interface RequestScope {
+  provider: string;
+  upstreamFailed: boolean;
+}
+
+const scope = new AsyncLocalStorage<RequestScope>();
+
+type ErrorClass = 'timeout' | 'forbidden' | 'http_error' | 'network';
+
+const classify = (err: any): ErrorClass => {
+  if (['ECONNABORTED', 'ETIMEDOUT'].includes(err?.code)) return 'timeout';
+  if (err?.response?.status === 403) return 'forbidden';
+  if (err?.response) return 'http_error';
+
+  return 'network';
+};
+
+const STARTED = Symbol('metricsStarted');
+
+type MeasuredConfig = InternalAxiosRequestConfig & { [STARTED]?: number };
+
+const observe = (config: MeasuredConfig | undefined, outcome: string) => {
+  const started = config?.[STARTED];
+  if (!started) return;
+
+  let host = '';
+  try {
+    host = new URL(config.url ?? '', config.baseURL).hostname;
+  } catch {
+    // left empty
+  }
+
+  upstreamDuration.observe({ host, outcome }, (Date.now() - started) / 1000);
+};
+
+const measured = new WeakSet<AxiosInstance>();
+
+/**
+ * Records the duration and failures of an axios instance's requests. Failures are
+ * attributed to `provider`, or else to the provider of the route being served.
+ */
+export const measureUpstreamRequests = (
+  instance: AxiosInstance,
+  provider?: string | ((config: InternalAxiosRequestConfig) => string | undefined),
+) => {
+  if (measured.has(instance)) return;
+  measured.add(instance);
+
+  instance.interceptors.request.use((config: MeasuredConfig) => {
+    config[STARTED] = Date.now();
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      observe(response.config, 'ok');
+      return response;
+    },
+    (err) => {
+      const errorClass = classify(err);
+      observe(err?.config, errorClass);
+
+      const current = scope.getStore();
+      if (current) current.upstreamFailed = true;
+
+      const named =
+        typeof provider === 'function' ? err?.config && provider(err.config) : provider;
+      scrapeErrors.inc({ provider: named || current?.provider || '', class: errorClass });
+      throw err;
+    },
+  );
+};
+
+/**
+ * Counts and times every request by route and provider, and serves the metrics at
+ * `/metrics`. A provider route failing while its upstream requests succeeded is counted
+ * as a `parse` scrape error. With `token` set, scrapes need `Authorization: Bearer`.
+ */
+export const registerMetrics = (
+  fastify: FastifyInstance,
+  { token }: { token?: string } = {},
+) => {
+  const scopes = new WeakMap<object, RequestScope & { started: number }>();
+
+  fastify.addHook('onRequest', (request, reply, done) => {
+    const current = {
+      provider: providerOf(request.routeOptions.url ?? ''),
+      upstreamFailed: false,
+      started: Date.now(),
+    };
+    scopes.set(request, current);
+    scope.run(current, done);
+  });
+
+  // runs once the response is sent, outside of the request's async context
+  fastify.addHook('onResponse', async (request, reply) => {
+    const current = scopes.get(request);
+    const route = request.routeOptions.url ?? 'unmatched';
+    const labels = { method: request.method, route, provider: providerOf(route) };
+
+    requests.inc({ ...labels, status: reply.statusCode });
+    requestDuration.observe(
+      labels,
+      (Date.now() - (current?.started ?? Date.now())) / 1000,
+    );
+
+    if (labels.provider && reply.statusCode >= 500 && !current?.upstreamFailed)
+      scrapeErrors.inc({ provider: labels.provider, class: 'parse' });
+  });
+
+  fastify.get('/metrics', async (request, reply) => {
+    if (token) {
+      const provided = Buffer.from(String(request.headers.authorization ?? ''));
+      const expected = Buffer.from(`Bearer ${token}`);
+      if (provided.length !== expected.length || !timingSafeEqual(provided, expected))
+        throw new Unauthorized('Invalid or missing metrics token');
+    }
+
+    reply.type(registry.contentType).send(await registry.metrics());
+  });
+};
@@ -0,0 +1,188 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+
+import {
+  AnimeInfo,
+  AnimeResult,
+  Episode,
+  MangaChapter,
+  MangaInfo,
+  MovieInfo,
+  Paged,
+  SourceSet,
+  Subtitle,
+  Video,
+} from '../models';
+
+export type Normalizer = (payload: any, request: FastifyRequest) => unknown;
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // shapes the route's response into one of the models in `models/types`
+    normalize?: Normalizer;
+  }
+}
+
+const text = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+// `"12"` and `12` are both episode 12
+const count = (value: unknown): number | null => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+
+  return Number.isFinite(number) ? number : null;
+};
+
+const list = <T>(value: unknown, item: (raw: any) => T): T[] =>
+  Array.isArray(value) ? value.filter(Boolean).map(item) : [];
+
+const genresOf = (value: unknown) =>
+  list(value, (genre) => (typeof genre === 'string' ? genre : genre?.name)).filter(
+    Boolean,
+  );
+
+const toResult = (raw: any): AnimeResult => ({
+  ...raw,
+  id: String(raw.id),
+  title: raw.title ?? raw.name ?? '',
+  url: text(raw.url),
+  image: text(raw.image ?? raw.poster),
+  type: text(raw.type),
+  releaseDate: text(raw.releaseDate),
+  status: text(raw.status),
+});
+
+const toEpisode = (raw: any): Episode => {
+  const { episode, episodeNumber, ...rest } = raw;
+
+  return {
+    ...rest,
+    id: String(raw.id),
+    number: count(raw.number ?? episode ?? episodeNumber),
+    title: text(raw.title),
+    url: text(raw.url),
+  };
+};
+
+const toChapter = (raw: any): MangaChapter => {
+  const { chapter, chapterNumber, volumeNumber, releasedDate, ...rest } = raw;
+
+  return {
+    ...rest,
+    id: String(raw.id),
+    title: text(raw.title),
+    number: count(raw.number ?? chapterNumber ?? chapter),
+    volume: count(raw.volume ?? volumeNumber),
+    releaseDate: text(raw.releaseDate ?? releasedDate),
+  };
+};
+
+// stream entries are read by players, so they only keep the fields players need
+const toVideo = (raw: any): Video => ({
+  url: raw.url,
+  quality: raw.quality || 'auto',
+  isM3U8: raw.isM3U8 ?? /\.m3u8(\?|$)/.test(raw.url),
+  ...(raw.isDASH && { isDASH: true }),
+  ...(raw.type === 'iframe' && { type: 'iframe' as const }),
+  ...(raw.proxyUrl && { proxyUrl: raw.proxyUrl }),
+  ...(raw.resolution && { resolution: raw.resolution }),
+  ...(raw.bandwidth && { bandwidth: raw.bandwidth }),
+  ...(raw.codecs && { codecs: raw.codecs }),
+  ...(raw.frameRate && { frameRate: raw.frameRate }),
+  ...(raw.audio && { audio: raw.audio }),
+});
+
+const toSubtitle = (raw: any): Subtitle => ({
+  url: raw.url,
+  lang: raw.lang || raw.label || 'Unknown',
+  ...(raw.proxyUrl && { proxyUrl: raw.proxyUrl }),
+});
+
+// animepahe lists one download per quality, the others a single link
+const downloadOf = (value: unknown): SourceSet['download'] =>
+  Array.isArray(value)
+    ? list(value, (raw) => ({ url: raw.url, quality: raw.quality || 'auto' })).filter(
+        (download) => download.url,
+      )
+    : text(value);
+
+/**
+ * Search results and listings, paged or not. Listings that come back as plain arrays
+ * stay arrays.
+ */
+export const toResults = (
+  payload: any,
+  request: FastifyRequest,
+): Paged<AnimeResult> | AnimeResult[] => {
+  if (Array.isArray(payload)) return list(payload, toResult);
+
+  const page = (request.query as { page?: number })?.page;
+
+  return {
+    ...payload,
+    currentPage: count(payload.currentPage ?? page) ?? 1,
+    hasNextPage: Boolean(payload.hasNextPage),
+    results: list(payload.results, toResult),
+  };
+};
+
+export const toEpisodes = (payload: any): Episode[] => list(payload, toEpisode);
+
+export const toAnimeInfo = (payload: any): AnimeInfo => ({
+  ...toResult(payload),
+  description: text(payload.description),
+  genres: genresOf(payload.genres),
+  totalEpisodes: count(payload.totalEpisodes) ?? payload.episodes?.length ?? null,
+  episodes: toEpisodes(payload.episodes),
+});
+
+export const toMovieInfo = (payload: any): MovieInfo => ({
+  ...toResult(payload),
+  description: text(payload.description),
+  genres: genresOf(payload.genres),
+  episodes: toEpisodes(payload.episodes),
+});
+
+export const toChapters = (payload: any): MangaChapter[] => list(payload, toChapter);
+
+// mangadex describes a manga in every language it has
+const descriptionOf = (value: any) =>
+  value && typeof value === 'object' ? (value.en ?? Object.values(value)[0]) : value;
+
+export const toMangaInfo = (payload: any): MangaInfo => ({
+  ...toResult(payload),
+  description: text(descriptionOf(payload.description)),
+  genres: genresOf(payload.genres),
+  chapters: toChapters(payload.chapters),
+});
+
+// the custom scrapers return the player page as `iframe`
+export const toSourceSet = (payload: any): SourceSet => {
+  const { iframe, ...rest } = payload;
+
+  return {
+    ...rest,
+    headers: payload.headers ?? {},
+    sources: list(payload.sources, toVideo).filter((video) => video.url),
+    subtitles: list(payload.subtitles, toSubtitle).filter((subtitle) => subtitle.url),
+    download: downloadOf(payload.download),
+    embedURL: text(payload.embedURL ?? iframe),
+  };
+};
+
+/**
+ * Runs the `normalize` of the route's config on its response. Errors are left alone.
+ * Written with `done` rather than `async`, so handlers that send without returning the
+ * reply aren't answered twice.
+ */
+export const registerNormalizers = (fastify: FastifyInstance) => {
+  fastify.addHook('preSerialization', (request, reply, payload, done) => {
+    const normalize = request.routeOptions.config?.normalize;
+
+    done(
+      null,
+      normalize && reply.statusCode < 400 && payload && typeof payload === 'object'
+        ? normalize(payload, request)
+        : payload,
+    );
+  });
+};
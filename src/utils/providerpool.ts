@@ -0,0 +1,29 @@
+/**
+ * Builds a meta provider once per configuration and hands that instance to every request
+ * asking for it. Requests pick their instance instead of reassigning a shared one, so
+ * concurrent requests never run against each other's `?provider=`.
+ *
+ * Names that match none of `providers` get the default instance, built with `undefined`,
+ * so the pool stays bounded whatever clients send.
+ */
+export const providerPool = <P extends { name: string }, T>(
+  providers: P[],
+  build: (provider?: P) => T,
+) => {
+  const instances = new Map<string, T>();
+
+  return (name?: string): T => {
+    const provider = name
+      ? providers.find((p) => p.name.toLowerCase() === name.toLowerCase())
+      : undefined;
+    const key = provider?.name.toLowerCase() ?? '';
+
+    let instance = instances.get(key);
+    if (!instance) {
+      instance = build(provider);
+      instances.set(key, instance);
+    }
+
+    return instance;
+  };
+};
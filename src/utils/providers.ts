@@ -1,6 +1,8 @@
 import { PROVIDERS_LIST } from '@consumet/extensions';
 import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
 
+import { object, oneOf } from './schemas';
+
 type ProvidersRequest = FastifyRequest<{
   Querystring: { type: keyof typeof PROVIDERS_LIST };
 }>;
@@ -10,26 +12,8 @@ export default class Providers {
     fastify.get(
       '/providers',
       {
-        preValidation: (request, reply, done) => {
-          const { type } = request.query;
-
-          const providerTypes = Object.keys(PROVIDERS_LIST).map((element) => element);
-
-          if (type === undefined) {
-            reply.status(400);
-            done(
-              new Error(
-                'Type must not be empty. Available types: ' + providerTypes.toString(),
-              ),
-            );
-          }
-
-          if (!providerTypes.includes(type)) {
-            reply.status(400);
-            done(new Error('Type must be either: ' + providerTypes.toString()));
-          }
-
-          done(undefined);
+        schema: {
+          querystring: object({ type: oneOf(Object.keys(PROVIDERS_LIST)) }, ['type']),
         },
       },
       async (request: ProvidersRequest, reply: FastifyReply) => {
@@ -0,0 +1,211 @@
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import { FastifyRequest, FastifyReply, FastifyInstance, RegisterOptions } from 'fastify';
+
+import { isPlaylist, rewritePlaylist } from './m3u8';
+import {
+  Forbidden,
+  InvalidInput,
+  UpstreamError,
+  UpstreamTimeout,
+  errorBody,
+  toApiError,
+} from './errors';
+import { integer, object, text } from './schemas';
+import { proxySecret, PROXY_URL_TTL } from '../main';
+
+type ProxyRequest = FastifyRequest<{
+  Querystring: { url: string; headers?: string; exp?: number; sig?: string };
+}>;
+
+const proxyQuery = object({ url: text, headers: text, exp: integer, sig: text }, ['url']);
+
+// upstream response headers that are safe to pass through to the client
+const FORWARDED_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'last-modified',
+  'etag',
+];
+
+/**
+ * Signatures are bound to the upstream host rather than the full url, so the segments
+ * of a playlist stay valid for as long as the link that served the playlist.
+ */
+const sign = (url: string, headers: string, exp: number) =>
+  createHmac('sha256', proxySecret as string)
+    .update(`${new URL(url).host}\n${headers}\n${exp}`)
+    .digest('base64url');
+
+const verify = (url: string, headers: string, exp: number, sig: string) => {
+  const expected = Buffer.from(sign(url, headers, exp));
+  const actual = Buffer.from(sig);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const buildProxyUrl = (
+  url: string,
+  headers: Record<string, string> = {},
+  exp: number = Math.floor(Date.now() / 1000) + PROXY_URL_TTL,
+) => {
+  const params = new URLSearchParams({ url });
+  const serializedHeaders =
+    Object.keys(headers).length > 0 ? JSON.stringify(headers) : '';
+  if (serializedHeaders) params.set('headers', serializedHeaders);
+
+  if (proxySecret) {
+    params.set('exp', String(exp));
+    params.set('sig', sign(url, serializedHeaders, exp));
+  }
+
+  return `/utils/proxy?${params.toString()}`;
+};
+
+/**
+ * Adds a pre-signed `proxyUrl` to every source, audio track and subtitle of a `/watch`
+ * response, using the `headers` the provider returned alongside them.
+ */
+export const withProxyUrls = <T>(data: T, request: FastifyRequest): T => {
+  const res = data as any;
+  if (!res || typeof res !== 'object') return data;
+
+  const origin = `${request.protocol}://${request.hostname}`;
+  const headers: Record<string, string> = res.headers ?? {};
+  const exp = Math.floor(Date.now() / 1000) + PROXY_URL_TTL;
+  const attach = (item: any): any =>
+    item?.url
+      ? {
+          ...item,
+          proxyUrl: origin + buildProxyUrl(item.url, headers, exp),
+          ...(Array.isArray(item.audio) && { audio: item.audio.map(attach) }),
+        }
+      : item;
+
+  return {
+    ...res,
+    ...(Array.isArray(res.sources) && { sources: res.sources.map(attach) }),
+    ...(Array.isArray(res.subtitles) && { subtitles: res.subtitles.map(attach) }),
+  };
+};
+
+const readStream = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+export default class M3U8Proxy {
+  public getProxy = async (fastify: FastifyInstance, options: RegisterOptions) => {
+    fastify.get(
+      '/proxy',
+      {
+        schema: { querystring: proxyQuery },
+        preHandler: (request, reply, done) => {
+          const { url, headers } = request.query;
+
+          try {
+            const { protocol } = new URL(url);
+            if (protocol !== 'http:' && protocol !== 'https:')
+              throw new Error('Unsupported protocol');
+
+            if (headers) JSON.parse(headers);
+          } catch (err) {
+            return done(
+              new InvalidInput('url must be an http(s) url and headers a JSON object'),
+            );
+          }
+
+          if (proxySecret) {
+            const { exp, sig } = request.query;
+
+            if (!exp || !sig) {
+              return done(
+                new Forbidden(
+                  'Proxy links must be signed. Request a proxied source from a /watch route.',
+                ),
+              );
+            }
+
+            if (exp < Date.now() / 1000) {
+              return done(
+                new Forbidden(
+                  'Proxy link has expired. Request a new one from the /watch route.',
+                ),
+              );
+            }
+
+            if (!verify(url, headers ?? '', exp, sig)) {
+              return done(new Forbidden('Proxy link signature is invalid.'));
+            }
+          }
+
+          done(undefined);
+        },
+      },
+      async (request: ProxyRequest, reply: FastifyReply) => {
+        const { url } = request.query;
+        const upstreamHeaders: Record<string, string> = request.query.headers
+          ? JSON.parse(request.query.headers)
+          : {};
+
+        const headers = { ...upstreamHeaders };
+        if (request.headers.range) headers['Range'] = request.headers.range;
+
+        const controller = new AbortController();
+        reply.raw.on('close', () => controller.abort());
+
+        try {
+          const upstream = await axios.get<Readable>(url, {
+            headers,
+            responseType: 'stream',
+            signal: controller.signal,
+            timeout: 30000,
+            validateStatus: () => true,
+          });
+
+          if (upstream.status >= 400) {
+            upstream.data.destroy();
+            // a 404 stays a 404, blocks and other failures become 502s
+            const error = toApiError({ response: { status: upstream.status } });
+            return reply.status(error.statusCode).send(errorBody(error));
+          }
+
+          const contentType = String(upstream.headers['content-type'] ?? '');
+
+          if (isPlaylist(url, contentType)) {
+            const playlist = await readStream(upstream.data);
+            const finalUrl = upstream.request?.res?.responseUrl ?? url;
+
+            return reply
+              .status(200)
+              .type('application/vnd.apple.mpegurl')
+              .send(
+                rewritePlaylist(playlist, finalUrl, (uri) =>
+                  buildProxyUrl(uri, upstreamHeaders, request.query.exp),
+                ),
+              );
+          }
+
+          for (const header of FORWARDED_HEADERS) {
+            const value = upstream.headers[header];
+            if (value !== undefined && value !== null) reply.header(header, value);
+          }
+
+          return reply.status(upstream.status).send(upstream.data);
+        } catch (err: any) {
+          if (axios.isCancel(err)) return;
+
+          const timedOut = err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT';
+          throw timedOut
+            ? new UpstreamTimeout('Upstream request timed out', { cause: err })
+            : new UpstreamError('Could not reach upstream', { cause: err });
+        }
+      },
+    );
+  };
+}
@@ -0,0 +1,130 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+import { AudioTrack, SourceSet, Video } from '../models';
+import cache from './cache';
+import { MediaRendition, StreamVariant, parseMasterPlaylist } from './m3u8';
+import { withProxyUrls } from './proxy';
+import { flag, object } from './schemas';
+import { scraper } from './scraper';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // lets a watch route take `?expandQualities=true`
+    expandQualities?: boolean;
+  }
+}
+
+// `1920x1080` is 1080p, variants without a resolution go by their bitrate
+const qualityOf = ({ resolution, bandwidth }: StreamVariant) =>
+  resolution ? `${resolution.split('x')[1]}p` : `${Math.round(bandwidth / 1000)}k`;
+
+const audioTracks = (renditions: MediaRendition[], groupId: string): AudioTrack[] =>
+  renditions
+    .filter((rendition) => rendition.type === 'AUDIO' && rendition.groupId === groupId)
+    .map(({ name, language, url, default: isDefault }) => ({
+      name,
+      language,
+      url,
+      default: isDefault,
+    }));
+
+const toVariantSource = (
+  variant: StreamVariant,
+  renditions: MediaRendition[],
+): Video => ({
+  url: variant.url,
+  quality: qualityOf(variant),
+  isM3U8: true,
+  ...(variant.resolution && { resolution: variant.resolution }),
+  bandwidth: variant.bandwidth,
+  ...(variant.codecs && { codecs: variant.codecs }),
+  ...(variant.frameRate && { frameRate: variant.frameRate }),
+  ...(variant.audio && { audio: audioTracks(renditions, variant.audio) }),
+});
+
+// playlists are parsed once per url, for as long as the watch responses they came from
+const readPlaylist = (url: string, headers: Record<string, string>) =>
+  cache.fetch(
+    `qualities:${url}`,
+    async () => {
+      const { data } = await scraper.get(url, { headers, responseType: 'text' });
+      return parseMasterPlaylist(String(data), url);
+    },
+    cache.policy('qualities', 'watch'),
+  );
+
+const expand = async (
+  source: Video,
+  headers: Record<string, string>,
+): Promise<Video[]> => {
+  if (!source?.url || !source.isM3U8) return [source];
+
+  try {
+    const { variants, renditions } = await readPlaylist(source.url, headers);
+    if (variants.length === 0) return [source];
+
+    return [
+      ...variants
+        .sort((a, b) => b.bandwidth - a.bandwidth)
+        .map((variant) => toVariantSource(variant, renditions)),
+      { ...source, quality: 'auto' },
+    ];
+  } catch (err: any) {
+    console.warn(`Could not read playlist ${source.url}: ${err?.message ?? err}`);
+    return [source];
+  }
+};
+
+// every master playlist among the sources becomes one source per variant, best first,
+// followed by the master itself as `auto` for adaptive players
+const withQualities = async (data: SourceSet): Promise<SourceSet> => {
+  if (!Array.isArray(data?.sources)) return data;
+
+  const expanded = await Promise.all(
+    data.sources.map((source) => expand(source, data.headers ?? {})),
+  );
+  // a provider may list the same stream twice, e.g. anizone's master and playlist
+  const sources = Array.from(
+    new Map(expanded.flat().map((source) => [source.url, source])).values(),
+  );
+
+  return { ...data, sources };
+};
+
+const expandSources = async (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+) => {
+  const query = request.query as { expandQualities?: boolean; proxy?: boolean };
+  if (!query.expandQualities || reply.statusCode >= 400) return payload;
+
+  const expanded = await withQualities(payload as SourceSet);
+
+  return query.proxy ? withProxyUrls(expanded, request) : expanded;
+};
+
+/**
+ * Lets the routes with `expandQualities` in their config take `?expandQualities=true`,
+ * which replaces the master playlists of their response by their variants. The
+ * expansion runs after the normalizers, on the route's `SourceSet`, and signs the
+ * variants again for `proxy=true`. Since it answers asynchronously, those routes must
+ * return the reply they send.
+ */
+export const registerQualities = (fastify: FastifyInstance) => {
+  fastify.addHook('onRoute', (route) => {
+    if (!route.config?.expandQualities) return;
+
+    // copied, route schemas are often shared between routes
+    const querystring = (route.schema?.querystring as any) ?? object({});
+    route.schema = {
+      ...route.schema,
+      querystring: {
+        ...querystring,
+        properties: { ...querystring.properties, expandQualities: flag },
+      },
+    };
+    // route hooks run after the instance's, so after `registerNormalizers`
+    route.preSerialization = [route.preSerialization ?? [], expandSources].flat();
+  });
+};
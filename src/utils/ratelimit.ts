@@ -0,0 +1,133 @@
+import { Redis } from 'ioredis';
+import { FastifyInstance } from 'fastify';
+
+import { redis } from '../main';
+import { apiKeyId, readApiKey } from './apikeys';
+import { RateLimited } from './errors';
+import { isInternalRequest } from './internal';
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  // seconds until the next token, 0 when allowed
+  retryAfter: number;
+}
+
+interface BucketStore {
+  // takes one token from the bucket, refilled continuously at `refillPerSecond`
+  take(key: string, capacity: number, refillPerSecond: number): Promise<BucketResult>;
+}
+
+const toResult = (allowed: boolean, tokens: number, refillPerSecond: number) => ({
+  allowed,
+  remaining: Math.floor(tokens),
+  retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+});
+
+// refill, take and store in one step, so instances sharing Redis share the bucket
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate * 1000))
+return { allowed, tostring(tokens) }
+`;
+
+class RedisBucketStore implements BucketStore {
+  constructor(private readonly client: Redis) {}
+
+  async take(key: string, capacity: number, refillPerSecond: number) {
+    const [allowed, tokens] = (await this.client.eval(
+      TAKE_SCRIPT,
+      1,
+      `ratelimit:${key}`,
+      capacity,
+      refillPerSecond,
+      Date.now(),
+    )) as [number, string];
+
+    return toResult(allowed === 1, Number(tokens), refillPerSecond);
+  }
+}
+
+class MemoryBucketStore implements BucketStore {
+  private buckets = new Map<string, { tokens: number; ts: number }>();
+
+  async take(key: string, capacity: number, refillPerSecond: number) {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, ts: now };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.ts) / 1000) * refillPerSecond,
+    );
+    bucket.ts = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) bucket.tokens--;
+    this.buckets.set(key, bucket);
+
+    // full buckets carry no state, so they are dropped once the map grows
+    if (this.buckets.size > 10000)
+      for (const [name, { tokens, ts }] of this.buckets)
+        if (tokens + ((now - ts) / 1000) * refillPerSecond >= capacity)
+          this.buckets.delete(name);
+
+    return toResult(allowed, bucket.tokens, refillPerSecond);
+  }
+}
+
+let store: BucketStore | undefined;
+
+// created lazily, since `redis` is only available once main.ts has been evaluated
+export const getBucketStore = () => {
+  store ??= redis ? new RedisBucketStore(redis as Redis) : new MemoryBucketStore();
+
+  return store;
+};
+
+/**
+ * Limits every client IP to `perMinute` requests with bursts of up to `burst`. Requests
+ * with an API key also draw from a bucket of the same size for that key, so a key
+ * shared by many addresses is limited as a whole and rotating keys never lifts the IP
+ * limit. `/utils/proxy` is left out, since players request segments continuously and
+ * the links are signed anyway.
+ */
+export const registerRateLimit = (
+  fastify: FastifyInstance,
+  { perMinute, burst }: { perMinute: number; burst: number },
+) => {
+  const take = (client: string) => getBucketStore().take(client, burst, perMinute / 60);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (request.url.startsWith('/utils/proxy') || isInternalRequest(request)) return;
+
+    let result = await take(`client:ip:${request.ip}`);
+
+    // keys are validated by the API key hook first, so the id is enough here
+    const id = apiKeyId(readApiKey(request) ?? '');
+    if (result.allowed && id) {
+      const keyResult = await take(`client:key:${id}`);
+      if (!keyResult.allowed || keyResult.remaining < result.remaining)
+        result = keyResult;
+    }
+
+    const { allowed, remaining, retryAfter } = result;
+    reply.header('x-ratelimit-limit', perMinute);
+    reply.header('x-ratelimit-remaining', remaining);
+
+    if (!allowed) {
+      reply.header('retry-after', retryAfter);
+      throw new RateLimited(`Too many requests, retry in ${retryAfter} seconds.`);
+    }
+  });
+};
@@ -0,0 +1,81 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { StreamingServers, SubOrSub } from '@consumet/extensions/dist/models';
+
+import { InvalidInput } from './errors';
+
+/**
+ * JSON schema fragments for route options. Fastify coerces query and path params to the
+ * declared types before the handler runs, so `page` arrives as a number and `dub` as a
+ * boolean, and anything that doesn't fit is answered with a 400.
+ */
+export const page = { type: 'integer', minimum: 1 } as const;
+export const perPage = { type: 'integer', minimum: 1, maximum: 100 } as const;
+export const flag = { type: 'boolean' } as const;
+export const integer = { type: 'integer' } as const;
+export const positive = { type: 'integer', minimum: 1 } as const;
+// ids, queries and anything else that can't be empty
+export const text = { type: 'string', minLength: 1 } as const;
+// AniList, MAL and TMDB ids, kept as strings
+export const numericId = { type: 'string', pattern: '^\\d+$' } as const;
+export const isoDate = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' } as const;
+
+export const oneOf = <T extends string>(values: readonly T[]) =>
+  ({ type: 'string', enum: [...values] }) as const;
+
+export const server = oneOf(Object.values(StreamingServers));
+export const category = oneOf(Object.values(SubOrSub));
+
+export const object = <P extends Record<string, object>>(
+  properties: P,
+  required: (keyof P & string)[] = [],
+) => ({ type: 'object', properties, required }) as const;
+
+export const searchSchema = {
+  params: object({ query: text }, ['query']),
+  querystring: object({ page }),
+};
+export type SearchRequest = FastifyRequest<{
+  Params: { query: string };
+  Querystring: { page?: number };
+}>;
+
+export const pageSchema = { querystring: object({ page }) };
+export type PageRequest = FastifyRequest<{ Querystring: { page?: number } }>;
+
+export const idSchema = { querystring: object({ id: text }, ['id']) };
+export type IdRequest = FastifyRequest<{ Querystring: { id: string } }>;
+
+/**
+ * Parses a query param holding a JSON list, e.g. `genres=["Action","Comedy"]`.
+ */
+export const parseJsonList = (value: string, name: string): string[] => {
+  let list: unknown;
+  try {
+    list = JSON.parse(value);
+  } catch {
+    throw new InvalidInput(`${name} must be a JSON array, e.g. ["Action","Comedy"]`);
+  }
+
+  if (!Array.isArray(list) || !list.every((item) => typeof item === 'string'))
+    throw new InvalidInput(`${name} must be a JSON array of strings`);
+
+  return list;
+};
+
+const FLAG_ALIASES: Record<string, string> = { '1': 'true', '0': 'false' };
+
+/**
+ * Lets boolean query params keep accepting `1` and `0`, which Fastify's coercion only
+ * knows as numbers.
+ */
+export const registerFlagAliases = (fastify: FastifyInstance) => {
+  fastify.addHook('preValidation', async (request) => {
+    const properties = (request.routeOptions.schema?.querystring as any)?.properties;
+    const query = request.query as Record<string, unknown>;
+    if (!properties || !query) return;
+
+    for (const [name, value] of Object.entries(query))
+      if (properties[name]?.type === 'boolean' && typeof value === 'string')
+        query[name] = FLAG_ALIASES[value] ?? value;
+  });
+};
@@ -0,0 +1,211 @@
+import axios, {
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+import { limitUpstreamRequests } from './upstream';
+import { useProxyPool } from './proxypool';
+import { measureUpstreamRequests } from './metrics';
+
+const DEFAULT_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+];
+
+const parseList = (value: string | undefined, fallback: string[]) => {
+  if (!value) return fallback;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [String(parsed)];
+  } catch {
+    return [value];
+  }
+};
+
+// `USER_AGENTS` takes a JSON array, like `PROXY`
+export const USER_AGENTS = parseList(process.env.USER_AGENTS, DEFAULT_USER_AGENTS);
+
+// for the `headers` returned next to sources, which must stay the same between requests
+export const USER_AGENT = USER_AGENTS[0];
+
+// what a browser sends when navigating to a page
+const BROWSER_HEADERS = {
+  Accept:
+    'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  DNT: '1',
+  'Upgrade-Insecure-Requests': '1',
+};
+
+// defaults per upstream host, on top of the browser headers
+const HOST_HEADERS: Record<string, Record<string, string>> = {
+  'animeyy.com': { Referer: 'https://animeyy.com' },
+  'anizone.to': { Referer: 'https://anizone.to' },
+  'allanime.day': {
+    Referer: 'https://allanime.day',
+    'Accept-Language': 'en-US,en;q=0.9',
+  },
+};
+
+// providers of the scraped hosts, to pick their proxy pool
+const HOST_PROVIDERS: Record<string, string> = {
+  'animeyy.com': 'animeyy',
+  'anizone.to': 'anizone',
+  'allanime.day': 'allmanga',
+};
+
+const RETRIES = Number(process.env.SCRAPER_RETRIES ?? 2);
+const TIMEOUT = Number(process.env.SCRAPER_TIMEOUT) || 30000;
+
+// `https://proxy.example` and `https://proxy.example/` prefix urls the same way
+export const withProxyPrefix = (proxy: string, url: string) =>
+  (proxy.endsWith('/') ? proxy : proxy + '/') + url;
+
+/**
+ * `PROXY` is used the way the consumet providers use it: every request url is prefixed
+ * with the next proxy of the list, e.g. `https://proxy.example/https://anizone.to/...`.
+ */
+const proxies = parseList(process.env.PROXY, []);
+let nextProxy = 0;
+
+interface Cookie {
+  value: string;
+  expiresAt: number;
+}
+
+// cookies by domain, so challenge and session cookies survive between requests
+const jar = new Map<string, Map<string, Cookie>>();
+
+const storeCookies = (host: string, header: string[] | undefined) => {
+  for (const line of header ?? []) {
+    const [pair, ...attributes] = line.split(';').map((part) => part.trim());
+    const separator = pair.indexOf('=');
+    if (separator < 1) continue;
+
+    let domain = host;
+    let expiresAt = Infinity;
+    for (const attribute of attributes) {
+      const [name, value = ''] = attribute.split('=');
+      if (/^domain$/i.test(name)) domain = value.replace(/^\./, '').toLowerCase();
+      else if (/^max-age$/i.test(name)) expiresAt = Date.now() + Number(value) * 1000;
+      else if (/^expires$/i.test(name) && expiresAt === Infinity)
+        expiresAt = new Date(value).getTime() || Infinity;
+    }
+
+    const cookies = jar.get(domain) ?? new Map<string, Cookie>();
+    cookies.set(pair.slice(0, separator), {
+      value: pair.slice(separator + 1),
+      expiresAt,
+    });
+    jar.set(domain, cookies);
+  }
+};
+
+const cookieHeader = (host: string) => {
+  const now = Date.now();
+  const pairs: string[] = [];
+
+  for (const [domain, cookies] of jar) {
+    if (host !== domain && !host.endsWith('.' + domain)) continue;
+
+    for (const [name, { value, expiresAt }] of cookies)
+      if (expiresAt > now) pairs.push(`${name}=${value}`);
+      else cookies.delete(name);
+  }
+
+  return pairs.join('; ');
+};
+
+const findByHost = <T>(entries: Record<string, T>, host: string) =>
+  Object.entries(entries).find(
+    ([name]) => host === name || host.endsWith('.' + name),
+  )?.[1];
+
+const ORIGINAL_URL = Symbol('originalUrl');
+
+type ScraperConfig = InternalAxiosRequestConfig & { [ORIGINAL_URL]?: string };
+
+const client = axios.create({ timeout: TIMEOUT });
+
+// request interceptors run last-registered first: limits, proxy pool, headers, then `PROXY`
+client.interceptors.request.use((config: ScraperConfig) => {
+  if (proxies.length === 0) return config;
+
+  config[ORIGINAL_URL] = config.url;
+  config.url = withProxyPrefix(proxies[nextProxy++ % proxies.length], config.url ?? '');
+  return config;
+});
+
+// timed once the limits are passed, and before `PROXY` rewrites the url
+measureUpstreamRequests(client, (config) =>
+  findByHost(HOST_PROVIDERS, new URL(config.url ?? '', config.baseURL).hostname),
+);
+
+client.interceptors.request.use((config) => {
+  const host = new URL(config.url ?? '', config.baseURL).hostname;
+  const defaults = {
+    'User-Agent': USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)],
+    ...BROWSER_HEADERS,
+    ...findByHost(HOST_HEADERS, host),
+  };
+
+  for (const [name, value] of Object.entries(defaults))
+    if (!config.headers.has(name)) config.headers.set(name, value);
+
+  const cookies = cookieHeader(host);
+  if (cookies && !config.headers.has('Cookie')) config.headers.set('Cookie', cookies);
+
+  return config;
+});
+
+// iframes and other hosts use the `*` pool
+useProxyPool(client, (config) =>
+  findByHost(HOST_PROVIDERS, new URL(config.url ?? '', config.baseURL).hostname),
+);
+
+limitUpstreamRequests(client);
+
+client.interceptors.response.use((response) => {
+  const config = response.config as ScraperConfig;
+  storeCookies(
+    new URL(config[ORIGINAL_URL] ?? config.url ?? '', config.baseURL).hostname,
+    response.headers['set-cookie'],
+  );
+  return response;
+});
+
+const isRetryable = (err: any) =>
+  ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN'].includes(err?.code) ||
+  (err?.response?.status >= 500 && err?.response?.status !== 501);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends a request through the shared scraping client, retrying timeouts, dropped
+ * connections and 5xx responses `SCRAPER_RETRIES` times with exponential backoff.
+ */
+const request = async <T = any>(
+  config: AxiosRequestConfig,
+): Promise<AxiosResponse<T>> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await client.request<T>(config);
+    } catch (err) {
+      if (attempt >= RETRIES || !isRetryable(err)) throw err;
+
+      await sleep(500 * 2 ** attempt + Math.random() * 250);
+    }
+  }
+};
+
+export const scraper = {
+  request,
+  get: <T = any>(url: string, config: AxiosRequestConfig = {}) =>
+    request<T>({ ...config, method: 'GET', url }),
+  post: <T = any>(url: string, data?: any, config: AxiosRequestConfig = {}) =>
+    request<T>({ ...config, method: 'POST', url, data }),
+};
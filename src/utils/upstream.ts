@@ -0,0 +1,143 @@
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+import { getBucketStore } from './ratelimit';
+
+interface UpstreamLimit {
+  // requests in flight at once, per instance
+  concurrency?: number;
+  // requests per second, shared between instances through Redis
+  rate?: number;
+}
+
+/**
+ * Caps for the hosts scraped directly by the custom providers. Their pages are fetched in
+ * loops (animeyy walks up to 50 episode pages per info request), which gets the server
+ * banned when left unchecked. Other hosts, like the CDNs behind `/utils/proxy`, are not
+ * limited unless `UPSTREAM_LIMITS` names them.
+ */
+const DEFAULT_LIMITS: Record<string, UpstreamLimit> = {
+  'animeyy.com': { concurrency: 4, rate: 5 },
+  'anizone.to': { concurrency: 4, rate: 5 },
+  'allanime.day': { concurrency: 4, rate: 5 },
+};
+
+// give up on a slot after this long rather than queueing forever
+const MAX_WAIT = 30000;
+
+let limits: Record<string, UpstreamLimit> | undefined;
+
+const loadLimits = (): Record<string, UpstreamLimit> => {
+  try {
+    return { ...DEFAULT_LIMITS, ...JSON.parse(process.env.UPSTREAM_LIMITS || '{}') };
+  } catch (err: any) {
+    console.warn(`Could not read UPSTREAM_LIMITS: ${err.message}`);
+    return DEFAULT_LIMITS;
+  }
+};
+
+// a limit for `example.com` also covers its subdomains, like `api.example.com`
+const findLimit = (host: string) => {
+  const configured = (limits ??= loadLimits());
+  const name = Object.keys(configured).find(
+    (entry) => host === entry || host.endsWith('.' + entry),
+  );
+
+  return name ? { name, ...configured[name] } : null;
+};
+
+const running = new Map<string, number>();
+const waiting = new Map<string, (() => void)[]>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const acquire = async (name: string, { concurrency, rate }: UpstreamLimit) => {
+  const deadline = Date.now() + MAX_WAIT;
+
+  if (concurrency && (running.get(name) ?? 0) >= concurrency)
+    await new Promise<void>((resolve, reject) => {
+      const queue = waiting.get(name) ?? [];
+      const timer = setTimeout(() => {
+        if (queue.includes(wake)) queue.splice(queue.indexOf(wake), 1);
+        reject(new Error(`Timed out waiting for a free ${name} connection`));
+      }, MAX_WAIT);
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      queue.push(wake);
+      waiting.set(name, queue);
+    });
+  // the slot is handed over by `release`, which already counted it as running
+  else running.set(name, (running.get(name) ?? 0) + 1);
+
+  try {
+    while (rate) {
+      const { allowed, retryAfter } = await getBucketStore().take(
+        `upstream:${name}`,
+        rate,
+        rate,
+      );
+      if (allowed) break;
+      if (Date.now() + retryAfter * 1000 > deadline)
+        throw new Error(`Timed out waiting for the ${name} rate limit`);
+
+      await sleep(retryAfter * 1000);
+    }
+  } catch (err) {
+    release(name);
+    throw err;
+  }
+};
+
+const release = (name: string) => {
+  const next = waiting.get(name)?.shift();
+  if (next) return next();
+
+  running.set(name, Math.max(0, (running.get(name) ?? 1) - 1));
+};
+
+const LIMITED = Symbol('upstreamLimit');
+
+type LimitedConfig = InternalAxiosRequestConfig & { [LIMITED]?: string };
+
+const releaseConfig = (config?: LimitedConfig) => {
+  const name = config?.[LIMITED];
+  if (!name) return;
+
+  delete config[LIMITED];
+  release(name);
+};
+
+/**
+ * Queues requests of an axios instance to hosts with an upstream limit until they fit the
+ * host's concurrency and rate caps.
+ */
+export const limitUpstreamRequests = (instance: AxiosInstance) => {
+  instance.interceptors.request.use(async (config: LimitedConfig) => {
+    let host: string;
+    try {
+      host = new URL(config.url ?? '', config.baseURL).hostname;
+    } catch {
+      return config;
+    }
+
+    const limit = findLimit(host);
+    if (!limit) return config;
+
+    await acquire(limit.name, limit);
+    config[LIMITED] = limit.name;
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      releaseConfig(response.config);
+      return response;
+    },
+    (err) => {
+      releaseConfig(err?.config);
+      throw err;
+    },
+  );
+};